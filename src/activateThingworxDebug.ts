@@ -2,7 +2,7 @@
  * Copyright (C) Microsoft Corporation. All rights reserved.
  *--------------------------------------------------------*/
 /*
- * activateMockDebug.ts containes the shared extension code that can be executed both in node.js and the browser. 
+ * activateThingworxDebug.ts containes the shared extension code that can be executed both in node.js and the browser. 
  */
 
 'use strict';
@@ -10,85 +10,108 @@
 import * as vscode from 'vscode';
 import { WorkspaceFolder, DebugConfiguration, ProviderResult, CancellationToken } from 'vscode';
 import { ThingworxDebugSession } from './thingworxDebug';
+import { Transport } from './transport';
+import { resolveCredentials, clearStoredCredentials } from './credentials';
+import { activateServiceCodeLens } from './serviceCodeLens';
+import { activateVariableViewers } from './variableViewers';
+import { recentServers, recordRecentServer } from './recentServers';
+import { FormatOption } from './valueFormat';
 
-export function activateThingworxDebug(context: vscode.ExtensionContext, factory?: vscode.DebugAdapterDescriptorFactory) {
+export function activateThingworxDebug(context: vscode.ExtensionContext, createTransport: () => Transport, factory?: vscode.DebugAdapterDescriptorFactory) {
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand('extension.mock-debug.runEditorContents', (resource: vscode.Uri) => {
-			let targetResource = resource;
-			if (!targetResource && vscode.window.activeTextEditor) {
-				targetResource = vscode.window.activeTextEditor.document.uri;
+		vscode.commands.registerCommand('thingworx-vscode.attach', async () => {
+			const configuration = await pickConfiguration('Select the server to attach to');
+			if (configuration) {
+				vscode.debug.startDebugging(undefined, Object.assign({}, configuration, {request: 'attach'}));
 			}
-			if (targetResource) {
-				vscode.debug.startDebugging(undefined, {
-					type: 'mock',
-					name: 'Run File',
-					request: 'launch',
-					program: targetResource.fsPath
-				},
-					{ noDebug: true }
-				);
+			else {
+				vscode.window.showInformationMessage('Create a Thingworx attach configuration in launch.json, or attach to a recent server.');
 			}
 		}),
-		vscode.commands.registerCommand('extension.mock-debug.debugEditorContents', (resource: vscode.Uri) => {
-			let targetResource = resource;
-			if (!targetResource && vscode.window.activeTextEditor) {
-				targetResource = vscode.window.activeTextEditor.document.uri;
+		vscode.commands.registerCommand('thingworx-vscode.attachToRecentServer', async () => {
+			const servers = recentServers(context.globalState);
+			if (!servers.length) {
+				vscode.window.showInformationMessage('No Thingworx servers were debugged recently.');
+				return;
 			}
-			if (targetResource) {
-				vscode.debug.startDebugging(undefined, {
-					type: 'mock',
-					name: 'Debug File',
-					request: 'launch',
-					program: targetResource.fsPath,
-					stopOnEntry: true
-				});
+
+			const selection = await vscode.window.showQuickPick(servers.map(s => ({label: s.name, configuration: s})), {placeHolder: 'Select the server to attach to'});
+			if (selection) {
+				vscode.debug.startDebugging(undefined, selection.configuration);
+			}
+		}),
+		vscode.commands.registerCommand('thingworx-vscode.toggleFormatting', () => toggleFormatting('hex')),
+		vscode.commands.registerCommand('thingworx-vscode.toggleLocalTime', () => toggleFormatting('localTime')),
+		vscode.commands.registerCommand('thingworx-vscode.togglePrettyJSON', () => toggleFormatting('prettyJSON')),
+		vscode.commands.registerCommand('thingworx-vscode.toggleInfotableSummary', () => toggleFormatting('infotableSummary')),
+		vscode.commands.registerCommand('thingworx-vscode.clearStoredCredentials', async () => {
+			const configuration = await pickConfiguration('Select the configuration whose stored credentials should be removed');
+			if (configuration) {
+				await clearStoredCredentials(configuration, context.secrets);
+				vscode.window.showInformationMessage(`Removed the stored credentials for "${configuration.name}".`);
 			}
 		}),
-		vscode.commands.registerCommand('extension.mock-debug.toggleFormatting', (variable) => {
-			const ds = vscode.debug.activeDebugSession;
-			if (ds) {
-				ds.customRequest('toggleFormatting');
+		vscode.debug.onDidStartDebugSession(session => {
+			if (session.type == 'thingworx-vscode' && !session.configuration.replaySession) {
+				recordRecentServer(context.globalState, session.configuration);
 			}
 		})
 	);
 
-	context.subscriptions.push(vscode.commands.registerCommand('extension.mock-debug.getProgramName', config => {
-		return vscode.window.showInputBox({
-			placeHolder: "Please enter the name of a markdown file in the workspace folder",
-			value: "readme.md"
-		});
-	}));
+	activateServiceCodeLens(context);
+	activateVariableViewers(context);
 
-	// register a configuration provider for 'mock' debug type
-	const provider = new ThingworxConfigurationProvider();
+	// register a configuration provider for 'thingworx-vscode' debug type
+	const provider = new ThingworxConfigurationProvider(context.secrets);
 	context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('thingworx-vscode', provider));
 
-	// register a dynamic configuration provider for 'mock' debug type
+	// register a dynamic configuration provider that offers the recently debugged servers
 	context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('thingworx-vscode', {
 		provideDebugConfigurations(folder: WorkspaceFolder | undefined): ProviderResult<DebugConfiguration[]> {
-			return [
-				{
-					name: "Attach to Thingworx",
-					request: "attach",
-					type: "thingworx-vscode",
-					program: "${file}"
-				}
-			];
+			return recentServers(context.globalState);
 		}
 	}, vscode.DebugConfigurationProviderTriggerKind.Dynamic));
 
 	if (!factory) {
-		factory = new InlineDebugAdapterFactory();
+		factory = new InlineDebugAdapterFactory(createTransport);
 	}
 	context.subscriptions.push(vscode.debug.registerDebugAdapterDescriptorFactory('thingworx-vscode', factory));
 	if ('dispose' in factory) {
-		context.subscriptions.push(factory);
+		context.subscriptions.push(factory as vscode.DebugAdapterDescriptorFactory & vscode.Disposable);
+	}
+}
+
+/**
+ * Toggles one of the options used to format values in the active debug session.
+ * @param option 		The formatting option.
+ */
+function toggleFormatting(option: FormatOption): void {
+	const session = vscode.debug.activeDebugSession;
+	if (session && session.type == 'thingworx-vscode') {
+		session.customRequest('toggleFormatting', {option});
 	}
 }
 
+/**
+ * Asks the user to select one of the thingworx configurations in launch.json. If there is only one, it is selected automatically.
+ * @param placeHolder 		The message displayed when asking the user to select a configuration.
+ * @returns 				A promise that resolves with the selected configuration, or `undefined` if there isn't one.
+ */
+async function pickConfiguration(placeHolder: string): Promise<DebugConfiguration | undefined> {
+	const configurations = (vscode.workspace.getConfiguration('launch').get<DebugConfiguration[]>('configurations') || []).filter(c => c.type == 'thingworx-vscode');
+	if (configurations.length > 1) {
+		const selection = await vscode.window.showQuickPick(configurations.map(c => ({label: c.name, configuration: c})), {placeHolder});
+		return selection && selection.configuration;
+	}
+
+	return configurations[0];
+}
+
 class ThingworxConfigurationProvider implements vscode.DebugConfigurationProvider {
 
+	constructor(private secrets: vscode.SecretStorage) {}
+
 	/**
 	 * Massage a debug configuration just before a debug session is being launched,
 	 * e.g. add all missing attributes to the debug configuration.
@@ -105,7 +128,14 @@ class ThingworxConfigurationProvider implements vscode.DebugConfigurationProvide
 			}
 		}
 
-		if (!('useSSL' in config) || !config.thingworxDomain || !config.thingworxPort || !config.thingworxAppKey) {
+		// Replayed sessions use the connection details of the recording
+		if (config.replaySession) {
+			return config;
+		}
+
+		// Configurations may either specify a single server or list several servers in `servers`
+		const servers: DebugConfiguration[] = config.servers && config.servers.length ? config.servers : [config];
+		if (servers.some(server => !server.thingworxUrl && (!('useSSL' in server) || !server.thingworxDomain || !server.thingworxPort))) {
 			return vscode.window.showInformationMessage("Connection details are not specified.").then(_ => {
 				return undefined;	// abort launch
 			});
@@ -113,11 +143,32 @@ class ThingworxConfigurationProvider implements vscode.DebugConfigurationProvide
 
 		return config;
 	}
+
+	/**
+	 * Resolves the credentials after variables such as `${workspaceFolder}` have been substituted,
+	 * so that they may be used in the path of the environment file.
+	 */
+	async resolveDebugConfigurationWithSubstitutedVariables(folder: WorkspaceFolder | undefined, config: DebugConfiguration, token?: CancellationToken): Promise<DebugConfiguration | undefined> {
+		if (config.replaySession) {
+			return config;
+		}
+
+		const error = await resolveCredentials(config, this.secrets);
+		if (error) {
+			vscode.window.showInformationMessage(error);
+			return undefined;	// abort launch
+		}
+
+		return config;
+	}
 }
 
 class InlineDebugAdapterFactory implements vscode.DebugAdapterDescriptorFactory {
 
+	constructor(private createTransport: () => Transport) {}
+
 	createDebugAdapterDescriptor(_session: vscode.DebugSession): ProviderResult<vscode.DebugAdapterDescriptor> {
-		return new vscode.DebugAdapterInlineImplementation(new ThingworxDebugSession());
+		// Each session uses its own transport, because connection options are specific to each configuration
+		return new vscode.DebugAdapterInlineImplementation(new ThingworxDebugSession(this.createTransport()));
 	}
 }
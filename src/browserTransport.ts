@@ -0,0 +1,32 @@
+/*
+ * browserTransport.ts implements the transport used when the debug adapter runs in the browser, e.g. in vscode.dev.
+ * Because requests are made from the browser, the thingworx server must allow cross-origin requests from the
+ * origin on which VS Code is hosted.
+ */
+
+import { DebugSocket, Transport, TransportOptions, TransportResponse } from './transport';
+
+/**
+ * A transport that uses the browser's `fetch` and native `WebSocket`.
+ */
+export class BrowserTransport implements Transport {
+
+	readonly platform = 'browser';
+
+	/**
+	 * In the browser, certificates and proxies are managed by the browser itself, so these options are ignored.
+	 */
+	configure(options: TransportOptions): void {
+		// nothing to do
+	}
+
+	async post(url: string, headers: {[name: string]: string}, body: string, signal?: AbortSignal): Promise<TransportResponse> {
+		// Session cookies are managed by the browser, so they must be included with every request
+		const response = await fetch(url, {method: 'POST', headers, body, credentials: 'include', signal});
+		return {statusCode: response.status, body: await response.text()};
+	}
+
+	openSocket(url: string): DebugSocket {
+		return new WebSocket(url);
+	}
+}
@@ -0,0 +1,274 @@
+/*
+ * completions.ts contains the helpers used by the debug adapter to determine what the user is typing in the
+ * debug console, so that appropriate completions can be requested from the thingworx server.
+ */
+
+/**
+ * Describes the expression being completed in the debug console.
+ */
+export interface CompletionContext {
+
+	/**
+	 * The kind of completion being requested:
+	 *  - `identifier` when completing a variable or global name
+	 *  - `member` when completing a member after a period, e.g. `me.`
+	 *  - `index` when completing a member in brackets, e.g. `Things["`
+	 */
+	kind: 'identifier' | 'member' | 'index';
+
+	/**
+	 * For `member` and `index` completions, the expression whose members should be completed.
+	 */
+	objectExpression?: string;
+
+	/**
+	 * The partial name that has already been typed.
+	 */
+	prefix: string;
+
+	/**
+	 * For `index` completions, the quote character that was typed after the opening bracket, if any.
+	 */
+	quote?: string;
+
+	/**
+	 * The zero-based index in the text at which the partial name starts.
+	 */
+	start: number;
+}
+
+/**
+ * The global names that are available in every thingworx service.
+ */
+export const ThingworxGlobals = [
+	'me', 'Things', 'ThingTemplates', 'ThingShapes', 'DataShapes', 'Resources',
+	'Networks', 'Users', 'Groups', 'Projects', 'logger'
+];
+
+/**
+ * Maps the thingworx global collections to the entity type of the entities they contain.
+ */
+export const ThingworxCollections: {[name: string]: string} = {
+	Things: 'Thing',
+	ThingTemplates: 'ThingTemplate',
+	ThingShapes: 'ThingShape',
+	DataShapes: 'DataShape',
+	Resources: 'Resource',
+	Networks: 'Network',
+	Users: 'User',
+	Groups: 'Group',
+	Projects: 'Project'
+};
+
+/**
+ * Describes a token of an expression typed in the debug console.
+ */
+export interface Token {
+
+	/**
+	 * The kind of token.
+	 */
+	type: 'identifier' | 'number' | 'string' | 'punctuator';
+
+	/**
+	 * The text of the token, which for strings includes the quotes.
+	 */
+	text: string;
+}
+
+/**
+ * Matches the next token of an expression, in the order of the capturing groups of `Token.type`.
+ */
+const TokenPattern = /\s*(?:([A-Za-z_$][\w$]*)|(\d[\w.]*|\.\d[\w]*)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(\+\+|--|[=!]==?|&&|\|\||<<|>>>?|[-+*\/%&|^<>]=?|=>?|[.()[\]{},;:?~!]))/y;
+
+/**
+ * The operators containing an equal sign that don't assign a value.
+ */
+const ComparisonOperators = ['==', '===', '!=', '!==', '<=', '>='];
+
+/**
+ * Splits the given expression into tokens. Comments and regular expression literals are not recognized.
+ * @param expression 		The expression.
+ * @returns 				The tokens, or `undefined` if the expression contains characters that can't be tokenized,
+ * 							such as an unterminated string.
+ */
+export function tokenize(expression: string): Token[] | undefined {
+	const types: Token['type'][] = ['identifier', 'number', 'string', 'punctuator'];
+	const tokens: Token[] = [];
+
+	TokenPattern.lastIndex = 0;
+	while (expression.substring(TokenPattern.lastIndex).trim()) {
+		const match = TokenPattern.exec(expression);
+		if (!match) {
+			return;
+		}
+
+		const group = match.findIndex((text, index) => index > 0 && text !== undefined);
+		tokens.push({type: types[group - 1], text: match[group]});
+	}
+
+	return tokens;
+}
+
+/**
+ * Returns whether evaluating the given expression may change the state of the server, because it invokes a function
+ * or service, assigns a value or increments or decrements a variable. Expressions that can't be tokenized are assumed to.
+ * @param expression 		The expression.
+ * @returns 				`true` if the expression may have side effects.
+ */
+export function hasSideEffects(expression: string): boolean {
+	const tokens = tokenize(expression);
+	return !tokens || tokens.some(token => token.type == 'punctuator' && (
+		token.text == '(' || token.text == '++' || token.text == '--' ||
+		(token.text.includes('=') && !ComparisonOperators.includes(token.text))
+	));
+}
+
+/**
+ * Returns whether the given expression is a path made up of an identifier followed by member accesses and indexes,
+ * such as `me.readings.rows[0]["value"]`, which can be assigned a value. Indexes may be literals or other paths.
+ * @param expression 		The expression.
+ * @returns 				`true` if the expression is a member path.
+ */
+export function isMemberPath(expression: string): boolean {
+	const tokens = tokenize(expression);
+	if (!tokens) {
+		return false;
+	}
+
+	let index = 0;
+	const peek = (text?: string) => tokens[index] && (text === undefined || (tokens[index].type == 'punctuator' && tokens[index].text == text));
+
+	// Parses a path starting at the current token, returning whether one was found
+	const path = (): boolean => {
+		if (!peek() || tokens[index].type != 'identifier') {
+			return false;
+		}
+		index++;
+
+		while (peek('.') || peek('[')) {
+			if (tokens[index++].text == '.') {
+				if (!peek() || tokens[index++].type != 'identifier') {
+					return false;
+				}
+				continue;
+			}
+
+			if (peek() && (tokens[index].type == 'string' || tokens[index].type == 'number')) {
+				index++;
+			}
+			else if (!path()) {
+				return false;
+			}
+			if (!peek(']')) {
+				return false;
+			}
+			index++;
+		}
+		return true;
+	};
+
+	return path() && index == tokens.length;
+}
+
+/**
+ * Returns the index at which the expression ending at the given index starts. The expression may be made up
+ * of identifiers, member accesses and balanced brackets or parantheses.
+ * @param text 		The text containing the expression.
+ * @param end 		The index at which the expression ends.
+ * @returns 		The index at which the expression starts.
+ */
+function expressionStart(text: string, end: number): number {
+	let depth = 0;
+	let index = end;
+
+	while (index > 0) {
+		const character = text[index - 1];
+		if (character == ']' || character == ')') {
+			depth++;
+		}
+		else if (character == '[' || character == '(') {
+			if (!depth) {
+				break;
+			}
+			depth--;
+		}
+		else if (!depth && !/[\w$.]/.test(character)) {
+			break;
+		}
+		index--;
+	}
+
+	return index;
+}
+
+/**
+ * Determines what is being completed at the end of the given text.
+ * @param text 		The text typed in the debug console, up to the cursor position.
+ * @returns 		The completion context.
+ */
+export function parseCompletionContext(text: string): CompletionContext {
+	const index = /\[\s*(["']?)([^"'[\]]*)$/.exec(text);
+	if (index) {
+		const objectExpression = text.substring(expressionStart(text, index.index), index.index).trim();
+		if (objectExpression) {
+			return {kind: 'index', objectExpression, prefix: index[2], quote: index[1], start: text.length - index[2].length};
+		}
+	}
+
+	const member = /\.([\w$]*)$/.exec(text);
+	if (member) {
+		const objectExpression = text.substring(expressionStart(text, member.index), member.index).trim();
+		if (objectExpression) {
+			return {kind: 'member', objectExpression, prefix: member[1], start: text.length - member[1].length};
+		}
+	}
+
+	const identifier = /[\w$]*$/.exec(text)![0];
+	return {kind: 'identifier', prefix: identifier, start: text.length - identifier.length};
+}
+
+/**
+ * Returns an expression that, when evaluated on the thingworx server, returns a JSON string containing the names of
+ * the properties, services and infotable fields of the value of the given expression. The given expression is
+ * evaluated only once.
+ * @param objectExpression 		The expression whose members should be returned.
+ * @returns 					An expression.
+ */
+export function memberNamesExpression(objectExpression: string): string {
+	return `(function (o) { var r = {properties: [], services: [], fields: []}; ` +
+		`try { var m = o.GetMetadataAsJSON(); ` +
+			`for (var p in m.propertyDefinitions) r.properties.push(p); ` +
+			`for (var s in m.serviceDefinitions) r.services.push(s); } ` +
+		`catch (e) { try { for (var k in o) r.properties.push(k); } catch (e2) {} } ` +
+		`try { for (var f in o.dataShape.fields) r.fields.push(f); } catch (e) {} ` +
+		`return JSON.stringify(r); })(${objectExpression})`;
+}
+
+/**
+ * Returns an expression that, when evaluated on the thingworx server, returns a JSON string containing the names of
+ * the entities of the given type that start with the given prefix.
+ * @param type 			The entity type.
+ * @param prefix 		The prefix with which the entity names should start.
+ * @returns 			An expression.
+ */
+export function entityNamesExpression(type: string, prefix: string): string {
+	return `(function () { var n = []; ` +
+		`var t = Resources["EntityServices"].GetEntityList({type: ${JSON.stringify(type)}, maxItems: 500, nameMask: ${JSON.stringify(prefix + '*')}}); ` +
+		`for (var i = 0; i < t.length; i++) n.push(t.rows[i].name); ` +
+		`return JSON.stringify(n); })()`;
+}
+
+/**
+ * Parses a JSON string returned by evaluating an expression on the thingworx server. Depending on the server version,
+ * string results may be returned either as-is or as quoted string literals.
+ * @param value 		The value returned by the server.
+ * @returns 			The parsed value.
+ */
+export function parseEvaluatedJSON(value: string): any {
+	let result = JSON.parse(value);
+	if (typeof result == 'string') {
+		result = JSON.parse(result);
+	}
+	return result;
+}
@@ -0,0 +1,159 @@
+/*
+ * credentials.ts resolves the credentials used to connect to the thingworx server before a debug session starts.
+ * Credentials may be specified directly in the debug configuration, read from environment variables or a .env file,
+ * or requested from the user and kept in the VS Code secret storage.
+ */
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { DebugConfiguration } from 'vscode';
+import { serverUrl, ServerDetails } from './transport';
+
+/**
+ * The prefix of the keys under which credentials are kept in the secret storage.
+ */
+const SecretKeyPrefix = 'thingworx-vscode';
+
+/**
+ * Returns a string that identifies the thingworx server that the given configuration connects to. The nodes
+ * of a cluster share their credentials, so configurations that list several servers are identified by the first one.
+ * @param config 		The debug configuration.
+ * @returns 			The server identifier.
+ */
+export function serverIdentifier(config: DebugConfiguration): string {
+	const servers: ServerDetails[] | undefined = config.servers;
+	return serverUrl(servers && servers.length ? servers[0] : config as ServerDetails);
+}
+
+/**
+ * Parses the contents of a .env file.
+ * @param contents 		The contents of the file.
+ * @returns 			An object containing the variables defined in the file.
+ */
+function parseEnvFile(contents: string): {[name: string]: string} {
+	const variables: {[name: string]: string} = {};
+
+	for (const line of contents.split(/\r?\n/)) {
+		const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line);
+		if (!match || line.trim().startsWith('#')) {
+			continue;
+		}
+
+		let value = match[2];
+		if (/^(["']).*\1$/.test(value)) {
+			value = value.substring(1, value.length - 1);
+		}
+		variables[match[1]] = value;
+	}
+
+	return variables;
+}
+
+/**
+ * Returns the value of the given environment variable. The variable is looked up in the .env file specified
+ * by the configuration first, if there is one, and then in the environment of the extension host.
+ * @param config 		The debug configuration.
+ * @param name 			The name of the variable.
+ * @returns 			A promise that resolves with the value, or `undefined` if the variable is not defined.
+ */
+async function environmentVariable(config: DebugConfiguration, name: string): Promise<string | undefined> {
+	if (config.envFile) {
+		try {
+			const contents = await vscode.workspace.fs.readFile(vscode.Uri.file(config.envFile));
+			const value = parseEnvFile(new TextDecoder().decode(contents))[name];
+			if (value !== undefined) {
+				return value;
+			}
+		}
+		catch (e) {
+			vscode.window.showWarningMessage(`Unable to read the environment file "${config.envFile}".`);
+		}
+	}
+
+	// The environment is not available when running in the browser
+	if (typeof process != 'undefined' && process.env) {
+		return process.env[name];
+	}
+}
+
+/**
+ * Returns a secret kept in the secret storage. If the secret has not been stored yet, the user is asked to enter it.
+ * @param secrets 		The secret storage.
+ * @param key 			The key under which the secret is kept.
+ * @param prompt 		The message displayed when asking the user to enter the secret.
+ * @returns 			A promise that resolves with the secret, or `undefined` if the user cancelled.
+ */
+async function storedSecret(secrets: vscode.SecretStorage, key: string, prompt: string): Promise<string | undefined> {
+	const secret = await secrets.get(key);
+	if (secret) {
+		return secret;
+	}
+
+	const value = await vscode.window.showInputBox({prompt, password: true, ignoreFocusOut: true});
+	if (value) {
+		await secrets.store(key, value);
+	}
+
+	return value;
+}
+
+/**
+ * Resolves the credentials of the given debug configuration, depending on its `authentication` mode:
+ *  - `appKey` (default) uses `thingworxAppKey` or reads the app key from the `thingworxAppKeyEnv` variable
+ *  - `secretStorage` asks for the app key once and keeps it in the secret storage, keyed by server
+ *  - `basic` uses `thingworxUsername` with a password specified by `thingworxPassword`, read from the
+ * 	  `thingworxPasswordEnv` variable or, if neither is specified, kept in the secret storage
+ * @param config 		The debug configuration, which is updated with the resolved credentials.
+ * @param secrets 		The secret storage.
+ * @returns 			A promise that resolves with an error message if the credentials could not be
+ * 						resolved, or `undefined` otherwise.
+ */
+export async function resolveCredentials(config: DebugConfiguration, secrets: vscode.SecretStorage): Promise<string | undefined> {
+	switch (config.authentication || 'appKey') {
+		case 'appKey':
+			if (!config.thingworxAppKey && config.thingworxAppKeyEnv) {
+				config.thingworxAppKey = await environmentVariable(config, config.thingworxAppKeyEnv);
+			}
+			if (!config.thingworxAppKey) {
+				return config.thingworxAppKeyEnv ?
+					`The environment variable "${config.thingworxAppKeyEnv}" containing the app key is not defined.` :
+					'An app key is not specified.';
+			}
+			return;
+		case 'secretStorage':
+			config.thingworxAppKey = await storedSecret(secrets, `${SecretKeyPrefix}.appKey.${serverIdentifier(config)}`, `Enter the app key to use for ${serverIdentifier(config)}`);
+			if (!config.thingworxAppKey) {
+				return 'An app key was not entered.';
+			}
+			return;
+		case 'basic':
+			if (!config.thingworxUsername) {
+				return 'A username is not specified.';
+			}
+			if (!config.thingworxPassword && config.thingworxPasswordEnv) {
+				config.thingworxPassword = await environmentVariable(config, config.thingworxPasswordEnv);
+			}
+			else if (!config.thingworxPassword) {
+				config.thingworxPassword = await storedSecret(secrets, `${SecretKeyPrefix}.password.${config.thingworxUsername}@${serverIdentifier(config)}`, `Enter the password of ${config.thingworxUsername} on ${serverIdentifier(config)}`);
+			}
+			if (!config.thingworxPassword) {
+				return 'A password is not specified.';
+			}
+			return;
+		default:
+			return `Unknown authentication mode "${config.authentication}".`;
+	}
+}
+
+/**
+ * Removes all credentials that were kept in the secret storage for the server used by the given configuration.
+ * @param config 		The debug configuration.
+ * @param secrets 		The secret storage.
+ */
+export async function clearStoredCredentials(config: DebugConfiguration, secrets: vscode.SecretStorage): Promise<void> {
+	await secrets.delete(`${SecretKeyPrefix}.appKey.${serverIdentifier(config)}`);
+	if (config.thingworxUsername) {
+		await secrets.delete(`${SecretKeyPrefix}.password.${config.thingworxUsername}@${serverIdentifier(config)}`);
+	}
+}
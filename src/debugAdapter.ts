@@ -0,0 +1,35 @@
+/*
+ * debugAdapter.ts is the entrypoint of the debug adapter when it runs as a separate process, e.g. when
+ * debugging the adapter itself using the "Server" launch configuration or when running the tests.
+ */
+
+import * as Net from 'net';
+import { ThingworxDebugSession } from './thingworxDebug';
+import { NodeTransport } from './nodeTransport';
+
+// When started with --server=<port>, the debug adapter accepts connections on that port instead of using stdin and stdout
+const args = process.argv.slice(2);
+let port = 0;
+for (const arg of args) {
+	const portMatch = /^--server=(\d{4,5})$/.exec(arg);
+	if (portMatch) {
+		port = parseInt(portMatch[1], 10);
+	}
+}
+
+if (port > 0) {
+	console.error(`waiting for debug protocol on port ${port}`);
+	Net.createServer(socket => {
+		console.error('>> accepted connection from client');
+		socket.on('end', () => console.error('>> client connection closed\n'));
+
+		const session = new ThingworxDebugSession(new NodeTransport());
+		session.setRunAsServer(true);
+		session.start(socket, socket);
+	}).listen(port);
+}
+else {
+	const session = new ThingworxDebugSession(new NodeTransport());
+	process.on('SIGTERM', () => session.shutdown());
+	session.start(process.stdin, process.stdout);
+}
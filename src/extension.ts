@@ -17,6 +17,7 @@
 
 import * as vscode from 'vscode';
 import { activateThingworxDebug } from './activateThingworxDebug';
+import { NodeTransport } from './nodeTransport';
 
 /*
  * The compile time flag 'runMode' controls how the debug adapter is run.
@@ -31,7 +32,7 @@ export function activate(context: vscode.ExtensionContext) {
 
 		case 'inline':
 			// run the debug adapter inside the extension and directly talk to it
-			activateThingworxDebug(context);
+			activateThingworxDebug(context, () => new NodeTransport());
 			break;
 		default:
 			throw new Error(`Unsupported run mode "${runMode}".`);
@@ -0,0 +1,94 @@
+/*
+ * nodeTransport.ts implements the transport used when the debug adapter runs in node.js.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import * as fs from 'fs';
+import WebSocket from 'ws';
+import createHttpsProxyAgent from 'https-proxy-agent';
+import { DebugSocket, Transport, TransportOptions, TransportResponse } from './transport';
+
+/**
+ * A transport that uses the node.js http modules and the `ws` package.
+ */
+export class NodeTransport implements Transport {
+
+	readonly platform = process.platform;
+
+	/**
+	 * The TLS options applied to requests and websockets.
+	 */
+	private tlsOptions: https.RequestOptions = {};
+
+	/**
+	 * The agent used to connect through a proxy, if one is configured.
+	 */
+	private proxyAgent?: http.Agent;
+
+	/**
+	 * The agents used to connect directly to the server, which keep connections open between requests
+	 * so that they don't pay for a new connection and TLS handshake each time.
+	 */
+	private httpAgent = new http.Agent({keepAlive: true});
+	private httpsAgent = new https.Agent({keepAlive: true});
+
+	configure(options: TransportOptions): void {
+		this.tlsOptions = {
+			ca: options.ca ? fs.readFileSync(options.ca) : undefined,
+			rejectUnauthorized: options.strictSSL !== false,
+			cert: options.clientCertificate ? fs.readFileSync(options.clientCertificate) : undefined,
+			key: options.clientKey ? fs.readFileSync(options.clientKey) : undefined,
+			pfx: options.clientPfx ? fs.readFileSync(options.clientPfx) : undefined,
+			passphrase: options.clientPassphrase
+		};
+
+		// Both requests and websockets are tunneled through the proxy, which receives the TLS options for the target server
+		this.proxyAgent = options.proxy ? createHttpsProxyAgent(options.proxy) : undefined;
+	}
+
+	post(url: string, headers: {[name: string]: string}, body: string, signal?: AbortSignal): Promise<TransportResponse> {
+		return new Promise((resolve, reject) => {
+			if (signal && signal.aborted) {
+				reject(new Error('The request was aborted'));
+				return;
+			}
+
+			const secure = url.startsWith('https:');
+			const client = secure ? https : http;
+			const request = client.request(url, Object.assign({
+				method: 'POST',
+				headers: Object.assign({'Content-Length': Buffer.byteLength(body)}, headers),
+				agent: this.proxyAgent || (secure ? this.httpsAgent : this.httpAgent)
+			}, this.tlsOptions),
+			response => {
+				const chunks: Buffer[] = [];
+				response.on('data', chunk => chunks.push(chunk));
+				response.on('end', () => resolve({
+					statusCode: response.statusCode || 0,
+					body: Buffer.concat(chunks).toString('utf8'),
+					cookies: response.headers['set-cookie']
+				}));
+				response.on('error', reject);
+			});
+
+			request.on('error', reject);
+			if (signal) {
+				signal.addEventListener('abort', () => request.destroy(new Error('The request was aborted')));
+			}
+			request.end(body);
+		});
+	}
+
+	openSocket(url: string): DebugSocket {
+		return new WebSocket(url, Object.assign({agent: this.proxyAgent}, this.tlsOptions));
+	}
+
+	readFile(path: string): Promise<string> {
+		return fs.promises.readFile(path, 'utf8');
+	}
+
+	writeFile(path: string, data: string, append?: boolean): Promise<void> {
+		return append ? fs.promises.appendFile(path, data, 'utf8') : fs.promises.writeFile(path, data, 'utf8');
+	}
+}
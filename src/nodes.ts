@@ -0,0 +1,108 @@
+/*
+ * nodes.ts describes the thingworx servers that a debug session is attached to. In high availability deployments,
+ * services may run on any of several platform nodes, so a single debug session can be attached to all of them.
+ * The IDs of threads, stack frames, variables and breakpoints are assigned independently by each node, so
+ * the IDs sent to the client are made unique by encoding the index of the node that assigned them.
+ */
+
+import { DebugSocket, ServerDetails, serverUrl } from './transport';
+import { ServerInfo, LegacyServerInfo } from './serverInfo';
+
+/**
+ * The connection details of one of the nodes listed in the `servers` setting of a debug configuration.
+ */
+export interface NodeDetails extends ServerDetails {
+
+	/**
+	 * An optional name used to label the threads running on this node. Defaults to the node's host name.
+	 */
+	name?: string;
+}
+
+/**
+ * Describes the connection to a thingworx server that the debug session is attached to.
+ */
+export interface ThingworxNode {
+
+	/**
+	 * The position of this node in the list of nodes, which is encoded into the IDs sent to the client.
+	 */
+	index: number;
+
+	/**
+	 * The name used to label the threads running on this node.
+	 */
+	name: string;
+
+	/**
+	 * The base URL of the thingworx server, including its context path.
+	 */
+	baseUrl: string;
+
+	/**
+	 * The websocket used to recieve messages from this node.
+	 */
+	websocket?: DebugSocket;
+
+	/**
+	 * Set to `true` while the debug adapter attempts to reconnect to this node.
+	 */
+	reconnecting?: boolean;
+
+	/**
+	 * When using basic authentication, the session cookie returned by this node after logging in.
+	 */
+	sessionCookie?: string;
+
+	/**
+	 * Describes the debug server extension installed on this node.
+	 */
+	serverInfo: ServerInfo;
+}
+
+/**
+ * Creates the nodes that the given debug configuration connects to. These are the entries of its `servers`
+ * setting or, if there are none, the single server specified by the configuration itself.
+ * @param config 		The debug configuration.
+ * @returns 			The nodes.
+ */
+export function createNodes(config: ServerDetails & {servers?: NodeDetails[]}): ThingworxNode[] {
+	const servers: NodeDetails[] = config.servers && config.servers.length ? config.servers : [config];
+
+	return servers.map((server, index) => {
+		const baseUrl = serverUrl(server);
+		return {index, name: server.name || nodeName(baseUrl), baseUrl, serverInfo: LegacyServerInfo};
+	});
+}
+
+/**
+ * Returns the default name of the node with the given base URL, which is its host name and port.
+ * @param baseUrl 		The base URL of the node.
+ * @returns 			The name.
+ */
+function nodeName(baseUrl: string): string {
+	const match = /^\w+:\/\/([^\/]+)/.exec(baseUrl);
+	return match ? match[1] : baseUrl;
+}
+
+/**
+ * Converts an ID assigned by a node into the ID sent to the client. When attached to a single node,
+ * the IDs are unchanged. The ID 0, which means "none" for variable references, is never converted.
+ * @param id 			The ID assigned by the node.
+ * @param node 			The node.
+ * @param nodeCount 	The number of nodes the debug session is attached to.
+ * @returns 			The client ID.
+ */
+export function clientID(id: number, node: ThingworxNode, nodeCount: number): number {
+	return id ? id * nodeCount + node.index : id;
+}
+
+/**
+ * Converts an ID sent by the client back into the ID assigned by the node, and the index of that node.
+ * @param id 			The client ID.
+ * @param nodeCount 	The number of nodes the debug session is attached to.
+ * @returns 			The index of the node and the ID that it assigned.
+ */
+export function nodeID(id: number, nodeCount: number): {index: number, id: number} {
+	return {index: id % nodeCount, id: Math.floor(id / nodeCount)};
+}
@@ -0,0 +1,176 @@
+/*
+ * pathMapping.ts contains the logic used to translate between the paths of the local typescript project
+ * and the paths that were stored by the thingworx server when the project was built.
+ */
+
+/**
+ * Describes a mapping between a local folder and the folder in which the project was located
+ * when it was built and deployed to the thingworx server.
+ */
+export interface PathMapping {
+
+	/**
+	 * The absolute path to a folder in the local workspace.
+	 */
+	localRoot: string;
+
+	/**
+	 * The absolute path of the corresponding folder on the machine on which the project was built.
+	 */
+	remoteRoot: string;
+}
+
+/**
+ * Translates paths between the local workspace and the paths reported by the thingworx server.
+ */
+export class PathMapper {
+
+	/**
+	 * The mappings to apply, with their roots normalized to use unix path delimiters.
+	 */
+	private mappings: PathMapping[];
+
+	/**
+	 * Whether paths should be compared without regard to case.
+	 */
+	private caseInsensitive: boolean;
+
+	/**
+	 * Creates a new path mapper.
+	 * @param mappings 		The path mappings to apply. If empty, paths are only normalized.
+	 * @param platform 		The platform on which the debug adapter is running.
+	 */
+	constructor(mappings: PathMapping[], private platform: string) {
+		this.caseInsensitive = platform == 'win32';
+		this.mappings = mappings.map(m => ({
+			localRoot: this.trimSeparator(this.normalizeLocalPath(m.localRoot)),
+			remoteRoot: this.trimSeparator(m.remoteRoot.replace(/\\/g, '/'))
+		}));
+	}
+
+	/**
+	 * Returns `true` if any path mappings were configured.
+	 */
+	get hasMappings(): boolean {
+		return this.mappings.length > 0;
+	}
+
+	/**
+	 * Converts a local path into the form used by the debug entities. On windows, typescript reports paths using an
+	 * uppercase drive letter, but the debugger reports them using a lowercase letter, which causes the debug server to
+	 * not match any breakpoint locations. Additionally, the debug entities use unix path delimiters, while the debugger
+	 * uses windows delimiters.
+	 * @param localPath 		The local path.
+	 * @returns 				The normalized path.
+	 */
+	private normalizeLocalPath(localPath: string): string {
+		if (this.platform == 'win32') {
+			return localPath[0].toUpperCase() + localPath.substring(1).replace(/\\/g, '/');
+		}
+		return localPath;
+	}
+
+	/**
+	 * Converts a path that uses unix path delimiters into the form used by the local platform.
+	 * @param filePath 		The path to convert.
+	 * @returns 			The converted path.
+	 */
+	private localPath(filePath: string): string {
+		if (this.platform == 'win32') {
+			return filePath.replace(/\//g, '\\');
+		}
+		return filePath;
+	}
+
+	/**
+	 * Removes the trailing path delimiter from the given path, if it has one.
+	 * @param root 		The path to trim.
+	 * @returns 		The trimmed path.
+	 */
+	private trimSeparator(root: string): string {
+		return root.length > 1 && root.endsWith('/') ? root.substring(0, root.length - 1) : root;
+	}
+
+	/**
+	 * If the given path is located in the given root folder, returns the remainder of the path
+	 * relative to that folder, including the leading path delimiter.
+	 * @param filePath 		The path to test.
+	 * @param root 			The root folder.
+	 * @param ignoreCase 	Whether the paths should be compared without regard to case.
+	 * @returns 			The relative path, or `undefined` if the path is not in the folder.
+	 */
+	private relativePath(filePath: string, root: string, ignoreCase: boolean): string | undefined {
+		const prefix = ignoreCase ? filePath.substring(0, root.length).toLowerCase() : filePath.substring(0, root.length);
+		if (prefix != (ignoreCase ? root.toLowerCase() : root)) {
+			return undefined;
+		}
+
+		const remainder = filePath.substring(root.length);
+		if (remainder && !remainder.startsWith('/')) {
+			return undefined;
+		}
+
+		return remainder;
+	}
+
+	/**
+	 * Converts the path of a local file into the path that the thingworx server uses for it.
+	 * @param localPath 	The path of the local file.
+	 * @returns 			The remote path.
+	 */
+	toRemote(localPath: string): string {
+		const normalizedPath = this.normalizeLocalPath(localPath);
+
+		for (const mapping of this.sortedMappings('localRoot')) {
+			const remainder = this.relativePath(normalizedPath, mapping.localRoot, this.caseInsensitive);
+			if (remainder !== undefined) {
+				return mapping.remoteRoot + remainder;
+			}
+		}
+
+		return normalizedPath;
+	}
+
+	/**
+	 * Converts a path reported by the thingworx server into the path of the corresponding local file.
+	 * @param remotePath 	The path reported by the server.
+	 * @returns 			The local path, or `undefined` if path mappings are configured, but none of
+	 * 						them matches the given path.
+	 */
+	toLocal(remotePath: string): string | undefined {
+		if (!this.hasMappings) {
+			return this.localPath(remotePath.replace(/\\/g, '/'));
+		}
+
+		const normalizedPath = remotePath.replace(/\\/g, '/');
+		for (const mapping of this.sortedMappings('remoteRoot')) {
+			// Remote paths with a drive letter were built on windows and are compared without regard to case
+			const remainder = this.relativePath(normalizedPath, mapping.remoteRoot, /^[a-z]:/i.test(mapping.remoteRoot));
+			if (remainder !== undefined) {
+				return this.localPath(mapping.localRoot + remainder);
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Returns the path mappings sorted by descending length of the given root, so that nested folders
+	 * take precedence over their parents.
+	 * @param root 		The root by which to sort.
+	 * @returns 		The sorted mappings.
+	 */
+	private sortedMappings(root: keyof PathMapping): PathMapping[] {
+		return this.mappings.slice().sort((a, b) => b[root].length - a[root].length);
+	}
+}
+
+/**
+ * Returns the last component of the given path, which may use either unix or windows path delimiters.
+ * @param filePath 		The path.
+ * @returns 			The file name.
+ */
+export function basename(filePath: string): string {
+	const components = filePath.split(/[\\/]/);
+	return components[components.length - 1];
+}
@@ -0,0 +1,93 @@
+/*
+ * recentServers.ts keeps track of the thingworx servers that were recently debugged, so that the user
+ * can attach to them again without having to create a configuration in launch.json.
+ */
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { DebugConfiguration } from 'vscode';
+import { serverIdentifier } from './credentials';
+
+/**
+ * The key under which the recent servers are kept in the global state.
+ */
+const RecentServersKey = 'thingworx-vscode.recentServers';
+
+/**
+ * The maximum number of servers to remember.
+ */
+const MaxRecentServers = 10;
+
+/**
+ * The properties that contain resolved credentials, which should never be kept in the global state.
+ */
+const SecretProperties = ['thingworxAppKey', 'thingworxPassword'];
+
+/**
+ * The properties that are specific to launching a service.
+ */
+const LaunchProperties = ['entityType', 'entityName', 'serviceName', 'parameters', 'stopOnEntry', 'noDebug'];
+
+/**
+ * The properties that are specific to a single session, which would overwrite or replay a recording when attaching again.
+ */
+const SessionProperties = ['recordSession', 'replaySession'];
+
+/**
+ * The properties that contain URLs, whose user information may contain credentials.
+ */
+const URLProperties = ['proxy'];
+
+/**
+ * Returns an attach configuration for the server used by the given configuration, without any credentials.
+ * App keys that were specified directly in the configuration are requested again and kept in the secret storage.
+ * @param config 		The configuration of a debug session.
+ * @returns 			The attach configuration.
+ */
+function attachConfiguration(config: DebugConfiguration): DebugConfiguration {
+	const nodeCount = config.servers ? config.servers.length : 0;
+	const name = nodeCount > 1 ? `Attach to ${serverIdentifier(config)} and ${nodeCount - 1} more` : `Attach to ${serverIdentifier(config)}`;
+	const result: DebugConfiguration = {type: config.type, request: 'attach', name};
+
+	for (const key in config) {
+		if (key in result || key.startsWith('__') || SecretProperties.includes(key) || LaunchProperties.includes(key) || SessionProperties.includes(key)) {
+			continue;
+		}
+		result[key] = config[key];
+	}
+
+	for (const key of URLProperties) {
+		if (typeof result[key] == 'string') {
+			result[key] = result[key].replace(/^([a-z][\w+.-]*:\/\/)[^@/]*@/i, '$1');
+		}
+	}
+
+	if ((result.authentication || 'appKey') == 'appKey' && !result.thingworxAppKeyEnv) {
+		result.authentication = 'secretStorage';
+	}
+
+	return result;
+}
+
+/**
+ * Returns the attach configurations of the servers that were recently debugged, most recent first.
+ * @param state 		The global state of the extension.
+ * @returns 			The attach configurations.
+ */
+export function recentServers(state: vscode.Memento): DebugConfiguration[] {
+	return state.get<DebugConfiguration[]>(RecentServersKey) || [];
+}
+
+/**
+ * Records the server used by the given debug configuration as the most recently debugged server.
+ * @param state 		The global state of the extension.
+ * @param config 		The configuration of a debug session that was started.
+ */
+export async function recordRecentServer(state: vscode.Memento, config: DebugConfiguration): Promise<void> {
+	const server = attachConfiguration(config);
+	const servers = recentServers(state).filter(s => s.name != server.name);
+
+	servers.unshift(server);
+	await state.update(RecentServersKey, servers.slice(0, MaxRecentServers));
+}
@@ -0,0 +1,165 @@
+/*
+ * serverInfo.ts describes the version and features of the BMDebugServer extension installed on the thingworx server,
+ * which determine the capabilities that the debug adapter advertises to the client.
+ */
+
+import { DebugProtocol } from 'vscode-debugprotocol';
+
+/**
+ * The features that may be implemented by the debug server extension.
+ */
+export type ServerFeature =
+	'setVariable' |
+	'functionBreakpoints' |
+	'dataBreakpoints' |
+	'breakpointLocations' |
+	'exceptions' |
+	'caughtExceptions' |
+	'uncaughtExceptions' |
+	'batchedStackTrace' |
+	'paging' |
+	'variableJSON' |
+	'logSubscription';
+
+/**
+ * Describes the debug server extension, as returned by its `getDebuggerInfo` service.
+ */
+export interface ServerInfo {
+
+	/**
+	 * The version of the debug server extension, e.g. `1.2.0`.
+	 */
+	version: string;
+
+	/**
+	 * The version of the protocol spoken by the debug server extension, which is incremented whenever
+	 * its services or messages change in a way that is incompatible with older debug adapters.
+	 */
+	protocolVersion: number;
+
+	/**
+	 * The features implemented by the debug server extension.
+	 */
+	features: ServerFeature[];
+}
+
+/**
+ * The protocol version spoken by this debug adapter.
+ */
+export const ProtocolVersion = 1;
+
+/**
+ * The features implemented by versions of the debug server extension that predate the `getDebuggerInfo` service.
+ */
+export const LegacyFeatures: ServerFeature[] = [
+	'setVariable', 'breakpointLocations', 'exceptions', 'caughtExceptions', 'uncaughtExceptions'
+];
+
+/**
+ * All features known by this debug adapter.
+ */
+export const AllFeatures: ServerFeature[] = LegacyFeatures.concat([
+	'functionBreakpoints', 'dataBreakpoints', 'batchedStackTrace', 'paging', 'variableJSON', 'logSubscription'
+]);
+
+/**
+ * Converts the features reported by the `getDebuggerInfo` service into a list of feature names. Features are reported
+ * as a comma-separated string; when they are missing or can't be read, the features of the original versions are assumed.
+ * @param features 		The features, as returned by the service.
+ * @returns 			The feature names.
+ */
+export function serverFeatures(features: any): ServerFeature[] {
+	if (typeof features == 'string') {
+		return features.split(',').map(f => f.trim()).filter(f => f) as ServerFeature[];
+	}
+
+	if (Array.isArray(features) && features.every(f => typeof f == 'string')) {
+		return features;
+	}
+
+	return LegacyFeatures;
+}
+
+/**
+ * Describes versions of the debug server extension that predate the `getDebuggerInfo` service. These versions
+ * can't report their features, so they are assumed to implement all of the features that existed at the time.
+ */
+export const LegacyServerInfo: ServerInfo = {version: 'unknown', protocolVersion: 0, features: LegacyFeatures};
+
+/**
+ * The exception filters that may be advertised to the client, which are only advertised if the
+ * debug server extension implements the feature with the same name.
+ */
+export const ExceptionBreakpointFilters: DebugProtocol.ExceptionBreakpointsFilter[] = [
+	{
+		filter: 'exceptions',
+		label: "All Exceptions",
+		description: `Break when errors are thrown or when a function exits as a result of an error being thrown.`,
+		default: false,
+		supportsCondition: true,
+		conditionDescription: `Enter a comma-separated list of error types or a /regular expression/ matching the type or message. Start with ! to ignore the matching errors.`
+	},
+	{
+		filter: 'caughtExceptions',
+		label: "Caught Exceptions",
+		description: `Break when errors are thrown or when a function exits as a result of an error being thrown and that error is caught.`,
+		default: false,
+		supportsCondition: true,
+		conditionDescription: `Enter a comma-separated list of error types or a /regular expression/ matching the type or message. Start with ! to ignore the matching errors.`
+	},
+	{
+		filter: 'uncaughtExceptions',
+		label: "Uncaught Exceptions",
+		description: `Break when errors are thrown or when a function exits as a result of an error being thrown and that error is not caught.`,
+		default: false,
+		supportsCondition: true,
+		conditionDescription: `Enter a comma-separated list of error types or a /regular expression/ matching the type or message. Start with ! to ignore the matching errors.`
+	},
+];
+
+/**
+ * Combines the debug server extensions installed on several nodes into one description, whose features are
+ * the ones implemented by all of them.
+ * @param infos 	The debug server extensions.
+ * @returns 		The combined description.
+ */
+export function combinedServerInfo(infos: ServerInfo[]): ServerInfo {
+	if (infos.length == 1) {
+		return infos[0];
+	}
+
+	const versions = infos.map(i => i.version).filter((version, index, versions) => versions.indexOf(version) == index);
+	return {
+		version: versions.join(', '),
+		protocolVersion: Math.min(...infos.map(i => i.protocolVersion)),
+		features: AllFeatures.filter(feature => infos.every(i => i.features.includes(feature)))
+	};
+}
+
+/**
+ * Returns the capabilities that depend on the features implemented by the debug server extension.
+ * @param info 		The debug server extension.
+ * @returns 		The capabilities.
+ */
+export function serverCapabilities(info: ServerInfo): DebugProtocol.Capabilities {
+	return {
+		supportsSetVariable: info.features.includes('setVariable'),
+		supportsFunctionBreakpoints: info.features.includes('functionBreakpoints'),
+		supportsDataBreakpoints: info.features.includes('dataBreakpoints'),
+		supportsBreakpointLocationsRequest: info.features.includes('breakpointLocations'),
+		exceptionBreakpointFilters: ExceptionBreakpointFilters.filter(f => info.features.includes(f.filter as ServerFeature))
+	};
+}
+
+/**
+ * Returns a warning describing why the debug server extension can't be used with this debug adapter. Older versions
+ * remain compatible, because the features they lack are disabled.
+ * @param info 		The debug server extension.
+ * @returns 		The warning, or `undefined` if the versions are compatible.
+ */
+export function compatibilityWarning(info: ServerInfo): string | undefined {
+	if (info.protocolVersion > ProtocolVersion) {
+		return `The BMDebugServer extension installed on the thingworx server (version ${info.version}) is newer than this version of the debugger supports. ` +
+			`Upgrade the Thingworx VSCode Debugger extension in VS Code.`;
+	}
+}
@@ -0,0 +1,166 @@
+/*
+ * serverLogs.ts describes the log messages streamed by the thingworx server to the debug console, and decides which
+ * of them are printed according to the minimum level and the other server logs selected in the debug configuration.
+ */
+
+/**
+ * The thingworx log levels, from the most to the least verbose.
+ */
+export type LogLevel = 'TRACE' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+
+/**
+ * The thingworx logs, other than the messages logged by the services being debugged, that may be streamed to the debug console.
+ */
+export type ServerLog = 'ScriptLog' | 'ErrorLog' | 'ApplicationLog';
+
+/**
+ * All log levels, ordered from the most to the least verbose.
+ */
+export const LogLevels: LogLevel[] = ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR'];
+
+/**
+ * All server logs that may be streamed to the debug console.
+ */
+export const ServerLogs: ServerLog[] = ['ScriptLog', 'ErrorLog', 'ApplicationLog'];
+
+/**
+ * Describes a `log` message sent by the thingworx server.
+ */
+export interface LogMessage {
+
+	/**
+	 * The text of the message.
+	 */
+	body: string;
+
+	/**
+	 * The level of the message. Older versions of the debug server extension send the levels used by the debug adapter,
+	 * which are numbers from 0 for verbose messages to 3 for errors.
+	 */
+	level?: string | number;
+
+	/**
+	 * The server log that the message was written to, or `undefined` for messages logged by the services being debugged.
+	 */
+	logger?: string;
+
+	/**
+	 * The name of the entity whose service logged the message.
+	 */
+	entityName?: string;
+
+	/**
+	 * The name of the service that logged the message.
+	 */
+	serviceName?: string;
+
+	/**
+	 * The path of the source file containing the statement that logged the message, as reported by the thingworx server.
+	 */
+	source?: string;
+
+	/**
+	 * The line of the statement that logged the message.
+	 */
+	line?: number;
+
+	/**
+	 * The column of the statement that logged the message.
+	 */
+	column?: number;
+
+	/**
+	 * The ID of the thread that logged the message.
+	 */
+	threadID?: number;
+}
+
+/**
+ * The options that determine which log messages are printed to the debug console.
+ */
+export interface LogOptions {
+
+	/**
+	 * The least severe level of the messages to print.
+	 */
+	minimumLevel: LogLevel;
+
+	/**
+	 * The server logs whose messages are printed, in addition to the messages logged by the services being debugged.
+	 */
+	serverLogs: ServerLog[];
+
+	/**
+	 * When specified, the messages from server logs are only printed if they were logged by an entity whose name matches.
+	 */
+	entityPattern?: RegExp;
+}
+
+/**
+ * Converts the level of a log message into a thingworx log level.
+ * @param level 	The level, either as a thingworx log level or as a debug adapter log level.
+ * @returns 		The thingworx log level.
+ */
+export function logLevel(level?: string | number): LogLevel {
+	if (typeof level == 'number') {
+		return (['DEBUG', 'INFO', 'WARN', 'ERROR', 'ERROR'] as LogLevel[])[level] || 'INFO';
+	}
+
+	const name = (level || '').toUpperCase();
+	if (name == 'FATAL') {
+		return 'ERROR';
+	}
+	if (name == 'WARNING') {
+		return 'WARN';
+	}
+	return LogLevels.includes(name as LogLevel) ? name as LogLevel : 'INFO';
+}
+
+/**
+ * Returns the category of the output events used to print messages with the given level, which matches
+ * the categories used for the messages printed by the debug adapter itself.
+ * @param level 	The log level.
+ * @returns 		The output category.
+ */
+export function logCategory(level: LogLevel): 'stdout' | 'console' | 'stderr' {
+	switch (level) {
+		case 'ERROR':
+			return 'stderr';
+		case 'WARN':
+			return 'console';
+		default:
+			return 'stdout';
+	}
+}
+
+/**
+ * Converts an entity name pattern, in which `*` matches any characters and `?` matches a single character,
+ * into a regular expression. Several patterns may be separated by commas.
+ * @param pattern 	The pattern.
+ * @returns 		A regular expression that matches the entity names.
+ */
+export function entityPattern(pattern: string): RegExp {
+	const alternatives = pattern.split(',').map(p => p.trim()).filter(p => p).map(p =>
+		p.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')
+	);
+	return new RegExp(`^(${alternatives.join('|')})$`, 'i');
+}
+
+/**
+ * Returns whether the given message should be printed to the debug console.
+ * @param message 		The message.
+ * @param options 		The options that determine which messages are printed.
+ * @returns 			`true` if the message should be printed.
+ */
+export function shouldPrintLog(message: LogMessage, options: LogOptions): boolean {
+	if (LogLevels.indexOf(logLevel(message.level)) < LogLevels.indexOf(options.minimumLevel)) {
+		return false;
+	}
+
+	if (!message.logger) {
+		return true;
+	}
+
+	return options.serverLogs.includes(message.logger as ServerLog) &&
+		(!options.entityPattern || options.entityPattern.test(message.entityName || ''));
+}
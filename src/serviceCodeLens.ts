@@ -0,0 +1,405 @@
+/*
+ * serviceCodeLens.ts contains the code lens provider that displays "Run" and "Debug" links above the services
+ * of the things, thing templates and thing shapes in a ThingworxVSCodeProject, and the commands that invoke them.
+ */
+
+'use strict';
+
+import * as vscode from 'vscode';
+
+/**
+ * Describes a parameter of a service, as declared in its typescript signature.
+ */
+export interface ServiceParameter {
+
+	/**
+	 * The name of the parameter.
+	 */
+	name: string;
+
+	/**
+	 * The thingworx base type of the parameter, e.g. `STRING` or `INFOTABLE`.
+	 */
+	baseType: string;
+
+	/**
+	 * Whether the parameter is optional or has a default value.
+	 */
+	optional: boolean;
+}
+
+/**
+ * Describes a service declared in a ThingworxVSCodeProject source file.
+ */
+export interface ServiceDescription {
+
+	/**
+	 * The collection containing the entity that declares the service, e.g. `Things`.
+	 */
+	entityType: string;
+
+	/**
+	 * The name of the entity that declares the service.
+	 */
+	entityName: string;
+
+	/**
+	 * The name of the service.
+	 */
+	serviceName: string;
+
+	/**
+	 * The parameters of the service.
+	 */
+	parameters: ServiceParameter[];
+}
+
+/**
+ * Maps the decorators used for entity classes to the collection containing that kind of entity.
+ */
+const EntityDecorators: {[decorator: string]: string} = {
+	ThingDefinition: 'Things',
+	ThingTemplateDefinition: 'ThingTemplates',
+	ThingShapeDefinition: 'ThingShapes'
+};
+
+/**
+ * The decorators of methods that handle events, which can't be invoked as services.
+ */
+const SubscriptionDecorators = ['subscription', 'localSubscription'];
+
+/**
+ * Returns how the bracket nesting depth changes at the given index. The `>` of arrow functions is not a bracket.
+ * @param text 		The text.
+ * @param index 	The index of the character.
+ * @returns 		`1` for opening brackets, `-1` for closing brackets and `0` for other characters.
+ */
+function bracketDepthChange(text: string, index: number): number {
+	const character = text[index];
+	if ('({[<'.includes(character)) {
+		return 1;
+	}
+	if (')}]'.includes(character) || (character == '>' && text[index - 1] != '=')) {
+		return -1;
+	}
+	return 0;
+}
+
+/**
+ * Splits the given text on the given separators, ignoring any separators nested in brackets.
+ * @param text 			The text to split.
+ * @param separators 	The characters on which to split.
+ * @returns 			The components of the text.
+ */
+function splitTopLevel(text: string, separators: string): string[] {
+	const components: string[] = [];
+	let depth = 0;
+	let component = '';
+
+	for (let i = 0; i < text.length; i++) {
+		const character = text[i];
+		depth += bracketDepthChange(text, i);
+
+		if (!depth && separators.includes(character)) {
+			components.push(component);
+			component = '';
+		}
+		else {
+			component += character;
+		}
+	}
+
+	components.push(component);
+	return components.map(c => c.trim()).filter(c => c);
+}
+
+/**
+ * Returns the contents of the bracketed block that starts at the given index.
+ * @param text 		The text containing the block.
+ * @param start 	The index of the opening bracket.
+ * @returns 		The contents of the block, excluding the brackets, or `undefined` if the block is not closed.
+ */
+function bracketedBlock(text: string, start: number): string | undefined {
+	let depth = 0;
+	for (let i = start; i < text.length; i++) {
+		const change = bracketDepthChange(text, i);
+		depth += change;
+		if (change < 0 && !depth) {
+			return text.substring(start + 1, i);
+		}
+	}
+}
+
+/**
+ * Parses the parameters of a service from the source code of its method. Services declare their parameters
+ * using a single destructured object parameter, e.g. `Service({a, b = 1}: {a: STRING, b?: NUMBER})`.
+ * @param source 		The source code of the method.
+ * @returns 			The parameters of the service.
+ */
+export function parseServiceParameters(source: string): ServiceParameter[] {
+	const parameterList = bracketedBlock(source, source.indexOf('('));
+	if (!parameterList || !parameterList.trim()) {
+		return [];
+	}
+
+	// The pattern and type literal are separated by the first top level colon
+	const [pattern, type] = splitTopLevel(parameterList, ':');
+	if (!type || !type.startsWith('{')) {
+		return [];
+	}
+
+	// Parameters that have default values in the pattern are optional
+	const patternBlock = bracketedBlock(pattern, pattern.indexOf('{')) || '';
+	const defaults = new Set(splitTopLevel(patternBlock, ',').filter(p => p.includes('=')).map(p => p.split('=')[0].trim()));
+
+	const parameters: ServiceParameter[] = [];
+	for (const member of splitTopLevel(bracketedBlock(type, 0) || '', ',;')) {
+		const match = /^([\w$]+)\s*(\?)?\s*:\s*([\w$]+)/.exec(member);
+		if (match) {
+			parameters.push({name: match[1], baseType: match[3], optional: !!match[2] || defaults.has(match[1])});
+		}
+	}
+
+	return parameters;
+}
+
+/**
+ * Returns the source code of the given symbol up to its name, including its decorators. Depending on the
+ * typescript version, decorators may not be included in the range of the symbol.
+ * @param document 		The document containing the symbol.
+ * @param symbol 		The symbol.
+ * @returns 			The source code.
+ */
+function declarationHeader(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): string {
+	let header = document.getText(new vscode.Range(symbol.range.start, symbol.selectionRange.start));
+	for (let line = symbol.range.start.line - 1; line >= 0 && document.lineAt(line).text.trim().startsWith('@'); line--) {
+		header = document.lineAt(line).text + '\n' + header;
+	}
+	return header;
+}
+
+/**
+ * Returns the services declared in the given document.
+ * @param document 		The document.
+ * @returns 			A promise that resolves with the services, the ranges of their names and the ranges of their methods.
+ */
+async function servicesInDocument(document: vscode.TextDocument): Promise<{service: ServiceDescription, range: vscode.Range, method: vscode.Range}[]> {
+	const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', document.uri) || [];
+	const services: {service: ServiceDescription, range: vscode.Range, method: vscode.Range}[] = [];
+
+	for (const symbol of symbols) {
+		if (symbol.kind != vscode.SymbolKind.Class || !symbol.children) {
+			continue;
+		}
+
+		const decorator = /@(ThingDefinition|ThingTemplateDefinition|ThingShapeDefinition)\b/.exec(declarationHeader(document, symbol));
+		if (!decorator) {
+			continue;
+		}
+
+		for (const method of symbol.children) {
+			if (method.kind != vscode.SymbolKind.Method || method.name.startsWith('#')) {
+				continue;
+			}
+
+			// Only public methods that don't handle events are services
+			const header = declarationHeader(document, method);
+			const decorators = (header.match(/@[\w$]+/g) || []).map(d => d.substring(1));
+			if (/(^|\s)(private|protected|static)\s/.test(header.replace(/@[\w$]+(\([^)]*\))?/g, ' ')) || decorators.some(d => SubscriptionDecorators.includes(d))) {
+				continue;
+			}
+
+			const source = document.getText(method.range);
+
+			services.push({
+				method: method.range,
+				service: {
+					entityType: EntityDecorators[decorator[1]],
+					entityName: symbol.name,
+					serviceName: method.name,
+					parameters: parseServiceParameters(source.substring(source.indexOf(method.name)))
+				},
+				range: method.selectionRange
+			});
+		}
+	}
+
+	return services;
+}
+
+/**
+ * Displays "Run" and "Debug" links above each service in a ThingworxVSCodeProject source file.
+ */
+class ServiceCodeLensProvider implements vscode.CodeLensProvider {
+
+	async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+		const lenses: vscode.CodeLens[] = [];
+
+		for (const {service, range} of await servicesInDocument(document)) {
+			lenses.push(new vscode.CodeLens(range, {title: 'Run', command: 'thingworx-vscode.runService', arguments: [service]}));
+			lenses.push(new vscode.CodeLens(range, {title: 'Debug', command: 'thingworx-vscode.debugService', arguments: [service]}));
+		}
+
+		return lenses;
+	}
+}
+
+/**
+ * Asks the user to enter a value for the given parameter.
+ * @param parameter 	The parameter.
+ * @returns 			A promise that resolves with the value, `null` if the parameter was left empty
+ * 						or `undefined` if the user cancelled.
+ */
+async function askForParameterValue(parameter: ServiceParameter): Promise<any> {
+	const title = `${parameter.name} (${parameter.baseType}${parameter.optional ? ', optional' : ''})`;
+
+	if (parameter.baseType == 'BOOLEAN') {
+		const options = parameter.optional ? ['true', 'false', '(empty)'] : ['true', 'false'];
+		const value = await vscode.window.showQuickPick(options, {placeHolder: title, ignoreFocusOut: true});
+		return value === undefined ? undefined : (value == '(empty)' ? null : value == 'true');
+	}
+
+	const isNumber = ['NUMBER', 'INTEGER', 'LONG'].includes(parameter.baseType);
+	const isJSON = ['JSON', 'INFOTABLE', 'TWJSON'].includes(parameter.baseType);
+
+	const value = await vscode.window.showInputBox({
+		prompt: title,
+		placeHolder: isJSON ? (parameter.baseType == 'INFOTABLE' ? '{"dataShape": {"fieldDefinitions": {}}, "rows": []}' : '{}') : undefined,
+		ignoreFocusOut: true,
+		validateInput: text => {
+			if (!text) {
+				return parameter.optional ? undefined : 'This parameter is required.';
+			}
+			if (isNumber && isNaN(Number(text))) {
+				return 'Enter a number.';
+			}
+			if (isJSON) {
+				try {
+					JSON.parse(text);
+				}
+				catch (e) {
+					return 'Enter a valid JSON value.';
+				}
+			}
+		}
+	});
+
+	if (value === undefined) {
+		return undefined;
+	}
+	if (!value) {
+		return null;
+	}
+
+	return isNumber ? Number(value) : (isJSON ? JSON.parse(value) : value);
+}
+
+/**
+ * Returns the debug configuration whose connection details should be used when invoking a service. This is the
+ * configuration of the active thingworx debug session, if there is one, or a thingworx configuration in launch.json.
+ * @returns 		A promise that resolves with the configuration, or `undefined` if there isn't one.
+ */
+async function connectionConfiguration(): Promise<vscode.DebugConfiguration | undefined> {
+	const session = vscode.debug.activeDebugSession;
+	if (session && session.type == 'thingworx-vscode') {
+		return session.configuration;
+	}
+
+	const configurations = (vscode.workspace.getConfiguration('launch').get<vscode.DebugConfiguration[]>('configurations') || []).filter(c => c.type == 'thingworx-vscode');
+	if (configurations.length > 1) {
+		const selection = await vscode.window.showQuickPick(configurations.map(c => ({label: c.name, configuration: c})), {placeHolder: 'Select the server on which to invoke the service'});
+		return selection && selection.configuration;
+	}
+
+	if (!configurations.length) {
+		vscode.window.showInformationMessage('Create a Thingworx attach configuration in launch.json to invoke services.');
+	}
+	return configurations[0];
+}
+
+/**
+ * Asks for the parameters of the given service and invokes it on the thingworx server.
+ * @param service 		The service to invoke.
+ * @param debug 		Whether the service should be invoked under the debugger.
+ */
+async function invokeService(service: ServiceDescription, debug: boolean): Promise<void> {
+	let entityType = service.entityType;
+	let entityName = service.entityName;
+
+	// Services defined on thing templates and shapes must be invoked on a thing that implements them
+	if (entityType != 'Things') {
+		const thingName = await vscode.window.showInputBox({prompt: `The name of a thing that implements ${service.entityName}`, ignoreFocusOut: true});
+		if (!thingName) {
+			return;
+		}
+		entityType = 'Things';
+		entityName = thingName;
+	}
+
+	const parameters: {[name: string]: any} = {};
+	for (const parameter of service.parameters) {
+		const value = await askForParameterValue(parameter);
+		if (value === undefined) {
+			return;
+		}
+		if (value !== null) {
+			parameters[parameter.name] = value;
+		}
+	}
+
+	// When already debugging, the service is invoked by the existing session so that its breakpoints apply
+	const session = vscode.debug.activeDebugSession;
+	if (debug && session && session.type == 'thingworx-vscode') {
+		await session.customRequest('runService', {entityType, entityName, serviceName: service.serviceName, parameters});
+		return;
+	}
+
+	const configuration = await connectionConfiguration();
+	if (!configuration) {
+		return;
+	}
+
+	// Only the connection details are reused; recording or replaying would overwrite or replace the existing recording
+	vscode.debug.startDebugging(undefined, Object.assign({}, configuration, {
+		name: `${debug ? 'Debug' : 'Run'} ${entityName}.${service.serviceName}`,
+		request: 'launch',
+		recordSession: undefined,
+		replaySession: undefined,
+		entityType,
+		entityName,
+		serviceName: service.serviceName,
+		parameters
+	}), {noDebug: !debug});
+}
+
+/**
+ * Debugs the service containing the cursor in the active editor.
+ */
+async function debugCurrentService(): Promise<void> {
+	const editor = vscode.window.activeTextEditor;
+	if (!editor) {
+		return;
+	}
+
+	const services = await servicesInDocument(editor.document);
+	const current = services.find(s => s.method.contains(editor.selection.active));
+	if (!current) {
+		vscode.window.showInformationMessage('Place the cursor in a service of a thing, thing template or thing shape to debug it.');
+		return;
+	}
+
+	await invokeService(current.service, true);
+}
+
+/**
+ * Registers the service code lens provider and the commands used to run and debug services.
+ * @param context 		The extension context.
+ */
+export function activateServiceCodeLens(context: vscode.ExtensionContext): void {
+	context.subscriptions.push(
+		vscode.languages.registerCodeLensProvider({language: 'typescript'}, new ServiceCodeLensProvider()),
+		vscode.commands.registerCommand('thingworx-vscode.runService', (service: ServiceDescription) => invokeService(service, false)),
+		vscode.commands.registerCommand('thingworx-vscode.debugService', (service: ServiceDescription) => invokeService(service, true)),
+		vscode.commands.registerCommand('thingworx-vscode.debugCurrentService', debugCurrentService)
+	);
+}
@@ -0,0 +1,429 @@
+/*
+ * sessionRecording.ts records the traffic of a debug session, which includes the debug adapter protocol messages
+ * exchanged with the client, the services invoked on the thingworx server and the messages recieved on the debug
+ * websocket, to a file containing one JSON entry per line. A recording can be replayed by a debug session that uses
+ * the replay transport instead of a thingworx server, so that problems can be reproduced without access to the server.
+ */
+
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { DebugSocket, Transport, TransportOptions, TransportResponse } from './transport';
+
+/**
+ * The properties of the debug configuration that contain credentials, which are never recorded.
+ */
+const CredentialProperties = ['thingworxAppKey', 'thingworxPassword', 'clientPassphrase'];
+
+/**
+ * The properties of the debug configuration that contain URLs, whose user information is never recorded.
+ */
+const URLProperties = ['proxy'];
+
+/**
+ * An entry of a recording, without its timestamp.
+ */
+export type RecordingEntryBody =
+	{type: 'request', request: DebugProtocol.Request} |
+	{type: 'response', response: DebugProtocol.Response} |
+	{type: 'event', event: DebugProtocol.Event} |
+	{type: 'service', url: string, args: any, statusCode?: number, result?: any, body?: string, error?: string} |
+	{type: 'socket', url: string, event: 'open' | 'message' | 'error' | 'close', data?: string};
+
+/**
+ * An entry of a recording.
+ */
+export type RecordingEntry = RecordingEntryBody & {
+
+	/**
+	 * The time at which the entry was recorded, in the ISO 8601 format.
+	 */
+	timestamp: string;
+};
+
+/**
+ * An entry of a recording that describes a service request.
+ */
+type ServiceEntry = RecordingEntry & {type: 'service'};
+
+/**
+ * Returns a copy of the given request in which the credentials specified in the debug configuration are replaced.
+ * @param request 		The request.
+ * @returns 			The request that can be recorded.
+ */
+export function redactedRequest(request: DebugProtocol.Request): DebugProtocol.Request {
+	if ((request.command != 'attach' && request.command != 'launch') || !request.arguments) {
+		return request;
+	}
+
+	const args = Object.assign({}, request.arguments);
+	for (const property of CredentialProperties) {
+		if (property in args) {
+			args[property] = '<redacted>';
+		}
+	}
+	for (const property of URLProperties) {
+		if (typeof args[property] == 'string') {
+			args[property] = args[property].replace(/^([a-z][\w+.-]*:\/\/)[^@/]*@/i, '$1<redacted>@');
+		}
+	}
+	return Object.assign({}, request, {arguments: args});
+}
+
+/**
+ * Parses the contents of a recording file.
+ * @param text 		The contents of the file.
+ * @returns 		The entries of the recording.
+ */
+export function parseRecording(text: string): RecordingEntry[] {
+	return text.split(/\r?\n/).filter(line => line.trim()).map((line, index) => {
+		try {
+			return JSON.parse(line);
+		}
+		catch (e) {
+			throw new Error(`Line ${index + 1} of the recording is not valid JSON.`);
+		}
+	});
+}
+
+/**
+ * Writes the entries of a recording to a file. Because the file is only known once the client attaches,
+ * the entries recorded before then are kept until recording starts or is turned off.
+ */
+export class SessionRecorder {
+
+	/**
+	 * The lines recorded before the file was known, or `undefined` once recording started or was turned off.
+	 */
+	private _pending?: string[] = [];
+
+	/**
+	 * Whether entries are recorded.
+	 */
+	private _enabled = true;
+
+	/**
+	 * A promise that resolves when all recorded lines have been written.
+	 */
+	private _writes: Promise<void> = Promise.resolve();
+
+	/**
+	 * Creates a recorder.
+	 * @param onError 		Invoked if the recording can't be written, after which recording stops.
+	 */
+	constructor(private onError: (error: Error) => void) {}
+
+	/**
+	 * Starts writing the recording to the given file, replacing its contents.
+	 * @param transport 	The transport used to write the file.
+	 * @param path 			The path of the file.
+	 */
+	start(transport: Transport, path: string): void {
+		if (!transport.writeFile) {
+			throw new Error('Debug sessions can only be recorded when the debugger runs in node.js.');
+		}
+
+		const writeFile = transport.writeFile.bind(transport);
+		const lines = this._pending || [];
+		this._pending = undefined;
+
+		let append = false;
+		this._write = line => {
+			this._writes = this._writes.then(() => writeFile(path, line, append)).then(() => {
+				append = true;
+			}, e => {
+				if (this._enabled) {
+					this._enabled = false;
+					this.onError(e as Error);
+				}
+			});
+		};
+		this._write(lines.join(''));
+	}
+
+	/**
+	 * Stops recording, discarding the entries that have not been written.
+	 */
+	stop(): void {
+		this._enabled = false;
+		this._pending = undefined;
+	}
+
+	/**
+	 * Records the given entry.
+	 * @param entry 	The entry.
+	 */
+	record(entry: RecordingEntryBody): void {
+		if (!this._enabled) {
+			return;
+		}
+
+		const line = JSON.stringify(Object.assign({timestamp: new Date().toISOString()}, entry)) + '\n';
+		if (this._pending) {
+			this._pending.push(line);
+			return;
+		}
+		this._write(line);
+	}
+
+	/**
+	 * Returns a promise that resolves when all recorded entries have been written.
+	 */
+	flush(): Promise<void> {
+		return this._writes;
+	}
+
+	/**
+	 * Writes a line to the recording file. Replaced when recording starts.
+	 */
+	private _write = (line: string): void => {
+		// The file is not known yet
+	};
+}
+
+/**
+ * A websocket that records the events of another websocket. Sent messages are not recorded,
+ * because they contain the credentials used to authenticate.
+ */
+class RecordingSocket implements DebugSocket {
+
+	onopen: ((event: any) => void) | null = null;
+	onmessage: ((event: any) => void) | null = null;
+	onerror: ((event: any) => void) | null = null;
+	onclose: ((event: any) => void) | null = null;
+
+	constructor(private socket: DebugSocket, url: string, record: (entry: RecordingEntryBody) => void) {
+		socket.onopen = e => {
+			record({type: 'socket', url, event: 'open'});
+			this.onopen && this.onopen(e);
+		};
+		socket.onmessage = e => {
+			record({type: 'socket', url, event: 'message', data: e.data});
+			this.onmessage && this.onmessage(e);
+		};
+		socket.onerror = e => {
+			record({type: 'socket', url, event: 'error', data: e.message});
+			this.onerror && this.onerror(e);
+		};
+		socket.onclose = e => {
+			record({type: 'socket', url, event: 'close'});
+			this.onclose && this.onclose(e);
+		};
+	}
+
+	send(data: string): void {
+		this.socket.send(data);
+	}
+
+	close(): void {
+		this.socket.close();
+	}
+}
+
+/**
+ * A transport that records the requests and websocket events of another transport.
+ */
+export class RecordingTransport implements Transport {
+
+	/**
+	 * Creates a recording transport.
+	 * @param transport 	The transport whose traffic is recorded.
+	 * @param record 		The function that records an entry.
+	 */
+	constructor(private transport: Transport, private record: (entry: RecordingEntryBody) => void) {}
+
+	get platform(): string {
+		return this.transport.platform;
+	}
+
+	configure(options: TransportOptions): void {
+		this.transport.configure(options);
+	}
+
+	async post(url: string, headers: {[name: string]: string}, body: string, signal?: AbortSignal): Promise<TransportResponse> {
+		// Headers are not recorded, because they contain the credentials
+		const args = body ? JSON.parse(body) : {};
+		try {
+			const response = await this.transport.post(url, headers, body, signal);
+			let result: any;
+			try {
+				result = JSON.parse(response.body);
+			}
+			catch (e) {
+				// Responses that aren't JSON, such as error messages, are recorded as they are
+			}
+
+			this.record(result === undefined ?
+				{type: 'service', url, args, statusCode: response.statusCode, body: response.body} :
+				{type: 'service', url, args, statusCode: response.statusCode, result});
+			return response;
+		}
+		catch (e) {
+			this.record({type: 'service', url, args, error: (e as Error).message});
+			throw e;
+		}
+	}
+
+	openSocket(url: string): DebugSocket {
+		return new RecordingSocket(this.transport.openSocket(url), url, this.record);
+	}
+}
+
+/**
+ * A websocket whose events are replayed from a recording.
+ */
+class ReplaySocket implements DebugSocket {
+
+	onopen: ((event: any) => void) | null = null;
+	onmessage: ((event: any) => void) | null = null;
+	onerror: ((event: any) => void) | null = null;
+	onclose: ((event: any) => void) | null = null;
+
+	/**
+	 * Set to `true` once the socket is closed, after which no more events are replayed to it.
+	 */
+	closed = false;
+
+	constructor(readonly url: string) {}
+
+	send(data: string): void {
+		// Messages sent to the server are not part of the recording
+	}
+
+	close(): void {
+		this.closed = true;
+	}
+}
+
+/**
+ * A transport that replays the service results and websocket events of a recording instead of communicating
+ * with a thingworx server. Service requests are answered with the first unused recorded result of the same
+ * service, preferring results whose parameters are identical. Websocket events are replayed in their recorded
+ * order, once all of the service requests and client requests recorded before them have been replayed.
+ */
+export class ReplayTransport implements Transport {
+
+	/**
+	 * The client request, service and websocket entries of the recording that have not been replayed yet, in order.
+	 */
+	private entries: RecordingEntry[];
+
+	/**
+	 * The websockets opened by the debug adapter that have not been closed, in the order in which they were opened.
+	 */
+	private sockets: ReplaySocket[] = [];
+
+	/**
+	 * Set while the replay of websocket events is scheduled.
+	 */
+	private pumping = false;
+
+	/**
+	 * Creates a replay transport.
+	 * @param recording 	The entries of the recording.
+	 * @param platform 		The platform on which the debug adapter is running.
+	 */
+	constructor(recording: RecordingEntry[], readonly platform: string) {
+		// The transport is created when attaching, so the client requests up to attaching have already been replayed
+		const start = recording.findIndex(entry => entry.type == 'request' && (entry.request.command == 'attach' || entry.request.command == 'launch'));
+		this.entries = recording.slice(start + 1).filter(entry => entry.type == 'request' || entry.type == 'service' || entry.type == 'socket');
+	}
+
+	/**
+	 * Invoked when the debug adapter recieves a request from the client, which allows the websocket events
+	 * recorded after the same request to be replayed.
+	 * @param command 		The command of the request.
+	 */
+	didRecieveRequest(command: string): void {
+		const entry = this.entries.find(entry => entry.type == 'request' && entry.request.command == command);
+		if (entry) {
+			this.entries.splice(this.entries.indexOf(entry), 1);
+			this.pump();
+		}
+	}
+
+	configure(options: TransportOptions): void {
+		// Nothing is sent to a server
+	}
+
+	async post(url: string, headers: {[name: string]: string}, body: string, signal?: AbortSignal): Promise<TransportResponse> {
+		const services = this.entries.filter((entry): entry is ServiceEntry => entry.type == 'service' && entry.url == url);
+		const entry = services.find(entry => JSON.stringify(entry.args) == (body || '{}')) || services[0];
+		if (!entry) {
+			return {statusCode: 500, body: `The request to ${url} is not part of the recording`};
+		}
+
+		this.entries.splice(this.entries.indexOf(entry), 1);
+		this.pump();
+
+		if (entry.error) {
+			throw new Error(entry.error);
+		}
+		return {statusCode: entry.statusCode || 200, body: entry.result !== undefined ? JSON.stringify(entry.result) : entry.body || ''};
+	}
+
+	openSocket(url: string): DebugSocket {
+		const socket = new ReplaySocket(url);
+		this.sockets.push(socket);
+		this.pump();
+		return socket;
+	}
+
+	/**
+	 * Schedules replaying the websocket events that are no longer waiting for a service request.
+	 */
+	private pump(): void {
+		if (this.pumping) {
+			return;
+		}
+
+		this.pumping = true;
+		setTimeout(() => {
+			this.pumping = false;
+			this.replaySocketEvents();
+		}, 0);
+	}
+
+	/**
+	 * Replays the websocket events at the start of the remaining entries, until reaching a client request, a service
+	 * request or an event for a websocket that the debug adapter hasn't opened yet.
+	 */
+	private replaySocketEvents(): void {
+		this.sockets = this.sockets.filter(socket => !socket.closed);
+
+		while (this.entries.length && this.entries[0].type == 'socket') {
+			const entry = this.entries[0] as RecordingEntry & {type: 'socket'};
+			const socket = this.sockets.find(socket => socket.url == entry.url);
+			if (!socket) {
+				// Websockets closed by the debug adapter itself also recorded their closing
+				if (entry.event == 'close' || entry.event == 'error') {
+					this.entries.shift();
+					continue;
+				}
+				return;
+			}
+
+			this.entries.shift();
+			switch (entry.event) {
+				case 'open':
+					socket.onopen && socket.onopen({});
+					break;
+				case 'message':
+					socket.onmessage && socket.onmessage({data: entry.data});
+					break;
+				case 'error':
+					socket.onerror && socket.onerror({message: entry.data});
+					break;
+				case 'close':
+					socket.closed = true;
+					this.sockets.splice(this.sockets.indexOf(socket), 1);
+					socket.onclose && socket.onclose({});
+					break;
+			}
+
+			// Events that change the state of the debug adapter may lead to service requests that must be answered first
+			if (entry.event != 'open') {
+				this.pump();
+				return;
+			}
+		}
+	}
+}
@@ -0,0 +1,338 @@
+/*
+ * fakeDebugServer.ts implements a local stand-in for the BMDebugServer thing and the ThingworxDebugger websocket,
+ * so that the debug adapter can be tested without a thingworx server. Each service returns a canned response that
+ * can be replaced by tests to script specific scenarios, including failures.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { AllFeatures } from '../serverInfo';
+
+/**
+ * Describes a service invocation recieved by the fake server.
+ */
+export interface ServiceCall {
+
+	/**
+	 * The name of the invoked service. Services of entities other than the debug server are named `<entity>.<service>`.
+	 */
+	name: string;
+
+	/**
+	 * The parameters sent with the request.
+	 */
+	args: any;
+}
+
+/**
+ * Describes a raw response returned by a scripted service.
+ */
+export interface RawResponse {
+
+	/**
+	 * The status code of the response.
+	 */
+	statusCode: number;
+
+	/**
+	 * The body of the response, which is sent as-is.
+	 */
+	body: string;
+}
+
+/**
+ * A function that returns the result of a service, or a promise that resolves with it. Results are
+ * serialized as JSON, unless they are raw responses.
+ */
+export type ServiceHandler = (args: any) => any;
+
+/**
+ * The path at which the fake server is reachable, matching the default thingworx context path.
+ */
+export const ContextPath = '/Thingworx';
+
+/**
+ * The source file reported by the default stack trace.
+ */
+export const SourcePath = '/project/src/Things/MyThing.ts';
+
+/**
+ * Wraps the given rows into the infotable format returned by thingworx services.
+ * @param rows 		The rows.
+ * @returns 		An infotable.
+ */
+export function infotable(rows: any[]): any {
+	return {dataShape: {fieldDefinitions: {}}, rows};
+}
+
+/**
+ * Returns the page of the given stack frames requested by a `getStackTraceInThread` invocation, with each row
+ * reporting the total number of frames.
+ * @param frames 	All stack frames of the thread.
+ * @param args 		The parameters of the invocation.
+ * @returns 		An infotable.
+ */
+export function stackTrace(frames: any[], args: any): any {
+	const start = args.startFrame || 0;
+	const page = args.levels ? frames.slice(start, start + args.levels) : frames.slice(start);
+	return infotable(page.map(frame => Object.assign({totalFrames: frames.length}, frame)));
+}
+
+/**
+ * Returns a promise that resolves with the given result after the given delay, used to imitate slow services.
+ * @param milliseconds 		The delay.
+ * @param result 			The result.
+ * @returns 				A promise.
+ */
+export function delayed(milliseconds: number, result: any): Promise<any> {
+	return new Promise(resolve => setTimeout(() => resolve(result), milliseconds));
+}
+
+/**
+ * A local server that imitates the services and websocket of the thingworx debugger extension.
+ */
+export class FakeDebugServer {
+
+	/**
+	 * The app key that requests and websocket connections must use.
+	 */
+	appKey = 'test-app-key';
+
+	/**
+	 * When `false`, websockets are accepted but never answered, as if the connection was half-open.
+	 */
+	answerSockets = true;
+
+	/**
+	 * The service invocations recieved so far, in order.
+	 */
+	calls: ServiceCall[] = [];
+
+	/**
+	 * The websockets that have successfully authenticated and are still open.
+	 */
+	sockets = new Set<WebSocket>();
+
+	/**
+	 * The handlers that return the results of the services, by service name.
+	 */
+	private handlers = new Map<string, ServiceHandler>();
+
+	/**
+	 * The ID assigned to the next breakpoint.
+	 */
+	private nextBreakpointID = 1;
+
+	/**
+	 * The functions that resolve the promises returned by `nextConnection`.
+	 */
+	private connectionListeners: (() => void)[] = [];
+
+	private server = http.createServer((request, response) => this.handleRequest(request, response));
+
+	private websocketServer = new WebSocketServer({server: this.server, path: `${ContextPath}/ThingworxDebugger`});
+
+	constructor() {
+		this.respond('getDebuggerInfo', () => infotable([{version: '1.0.0', protocolVersion: 1, features: AllFeatures.join(',')}]));
+		this.respond('setBreakpointsForFile', args => infotable(args.breakpoints.breakpoints.map((b: any) => ({
+			verified: true, line: b.line, column: b.column, sequenceID: this.nextBreakpointID++
+		}))));
+		this.respond('setFunctionBreakpoints', args => infotable(args.breakpoints.breakpoints.map((b: any) => b.entityName == 'MyThing' ?
+			{verified: true, source: SourcePath, line: 5, column: 1, sequenceID: this.nextBreakpointID++} :
+			{verified: false}
+		)));
+		this.respond('setDataBreakpoints', args => infotable(args.breakpoints.breakpoints.map((b: any) => ({
+			verified: true, sequenceID: this.nextBreakpointID++
+		}))));
+		this.respond('getThreads', () => infotable([{ID: 1, entityName: 'MyThing', serviceName: 'MyService'}]));
+		this.respond('getStackTraceInThread', args => stackTrace([
+			{id: 1, name: 'MyService', source: SourcePath, line: 5, column: 1},
+			{id: 2, name: 'Helper', source: SourcePath, line: 12, column: 1}
+		], args));
+		this.respond('getScopesInThread', () => infotable([{name: 'Local', variablesReference: 100}]));
+		this.respond('getVariableContents', () => infotable([
+			{name: 'count', value: '255', type: 'number', variablesReference: 0},
+			{name: 'label', value: '"Line 1"', type: 'string', variablesReference: 0}
+		]));
+		this.respond('evaluate', args => infotable([{value: `"${args.expression}"`, type: 'string', variablesReference: 0}]));
+		this.respond('getStackTraceWithScopes', async args => {
+			// Composed from the other services, so that scripting them also changes the batched result
+			const frames = await this.invoke('getStackTraceInThread', args);
+			if (!frames.rows) {
+				return frames;
+			}
+
+			const scopes = frames.rows.length ? await this.invoke('getScopesInThread', {threadID: args.threadID, frameID: frames.rows[0].id}) : infotable([]);
+			const variables: {[reference: number]: any} = {};
+			for (const scope of scopes.rows || []) {
+				variables[scope.variablesReference] = await this.invoke('getVariableContents', {reference: scope.variablesReference});
+			}
+			return infotable([{frames, scopes, variables}]);
+		});
+		this.respond('getExceptionDetails', () => infotable([{
+			name: 'TypeError', message: 'Cannot read property "rows" of undefined', caught: false,
+			stack: ['at MyService (MyThing.ts:5)'],
+			cause: {javaClass: 'java.lang.NullPointerException', message: 'null'}
+		}]));
+	}
+
+	/**
+	 * The port on which the server is listening.
+	 */
+	get port(): number {
+		return (this.server.address() as AddressInfo).port;
+	}
+
+	/**
+	 * The URL that the debug adapter should use to connect to this server.
+	 */
+	get url(): string {
+		return `http://localhost:${this.port}${ContextPath}`;
+	}
+
+	/**
+	 * Starts listening on a random port.
+	 */
+	start(): Promise<void> {
+		this.websocketServer.on('connection', socket => this.handleConnection(socket));
+		return new Promise(resolve => this.server.listen(0, 'localhost', () => resolve()));
+	}
+
+	/**
+	 * Closes all connections and stops listening.
+	 */
+	stop(): Promise<void> {
+		this.dropConnections();
+		return new Promise(resolve => this.websocketServer.close(() => this.server.close(() => resolve())));
+	}
+
+	/**
+	 * Replaces the handler of the given service.
+	 * @param name 			The name of the service.
+	 * @param handler 		A function that returns the result of the service.
+	 */
+	respond(name: string, handler: ServiceHandler): void {
+		this.handlers.set(name, handler);
+	}
+
+	/**
+	 * Returns the invocations of the given service recieved so far.
+	 * @param name 		The name of the service.
+	 * @returns 		The invocations.
+	 */
+	callsTo(name: string): ServiceCall[] {
+		return this.calls.filter(c => c.name == name);
+	}
+
+	/**
+	 * Sends the given message to all authenticated websockets.
+	 * @param message 		The message to send.
+	 */
+	send(message: any): void {
+		for (const socket of this.sockets) {
+			socket.send(JSON.stringify(message));
+		}
+	}
+
+	/**
+	 * Abruptly terminates all websockets, as if the network connection was lost.
+	 */
+	dropConnections(): void {
+		for (const socket of this.sockets) {
+			socket.terminate();
+		}
+		this.sockets.clear();
+	}
+
+	/**
+	 * Returns a promise that resolves when the next websocket authenticates.
+	 */
+	nextConnection(): Promise<void> {
+		return new Promise(resolve => this.connectionListeners.push(resolve));
+	}
+
+	/**
+	 * Returns the result of the given service without recording an invocation.
+	 * @param name 		The name of the service.
+	 * @param args 		The parameters of the service.
+	 * @returns 		A promise that resolves with the result.
+	 */
+	private async invoke(name: string, args: any): Promise<any> {
+		const handler = this.handlers.get(name);
+		return handler ? await handler(args) : {};
+	}
+
+	private handleConnection(socket: WebSocket): void {
+		socket.once('message', data => {
+			if (!this.answerSockets) {
+				return;
+			}
+
+			let credentials: any = {};
+			try {
+				credentials = JSON.parse(data.toString());
+			}
+			catch (e) {
+				// Treated as invalid credentials
+			}
+
+			if (credentials.appKey != this.appKey) {
+				socket.send(JSON.stringify({authenticated: false}));
+				socket.close();
+				return;
+			}
+
+			this.sockets.add(socket);
+			socket.on('close', () => this.sockets.delete(socket));
+			socket.send(JSON.stringify({authenticated: true}));
+
+			const listeners = this.connectionListeners;
+			this.connectionListeners = [];
+			listeners.forEach(listener => listener());
+		});
+	}
+
+	private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+		const chunks: Buffer[] = [];
+		request.on('data', chunk => chunks.push(chunk));
+		request.on('end', async () => {
+			const match = new RegExp(`^${ContextPath}/[A-Za-z]+/([^/?]+)/Services/([^/?]+)$`).exec(request.url || '');
+			if (request.method != 'POST' || !match) {
+				response.writeHead(404);
+				response.end();
+				return;
+			}
+
+			if (request.headers['appkey'] != this.appKey) {
+				response.writeHead(401);
+				response.end('Authentication failed');
+				return;
+			}
+
+			const entityName = decodeURIComponent(match[1]);
+			const serviceName = decodeURIComponent(match[2]);
+			const name = entityName == 'BMDebugServer' ? serviceName : `${entityName}.${serviceName}`;
+			const body = Buffer.concat(chunks).toString('utf8');
+			const args = body ? JSON.parse(body) : {};
+			this.calls.push({name, args});
+
+			let result: any;
+			try {
+				result = await this.invoke(name, args);
+			}
+			catch (e) {
+				result = {statusCode: 500, body: (e as Error).message};
+			}
+
+			if (result && typeof result.statusCode == 'number' && typeof result.body == 'string') {
+				response.writeHead(result.statusCode, {'Content-Type': 'application/json'});
+				response.end(result.body);
+				return;
+			}
+
+			response.writeHead(200, {'Content-Type': 'application/json'});
+			response.end(JSON.stringify(result));
+		});
+	}
+}
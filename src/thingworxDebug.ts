@@ -13,391 +13,2111 @@
 import {
 	Logger, logger,
 	LoggingDebugSession,
-	InitializedEvent, TerminatedEvent, StoppedEvent, BreakpointEvent, OutputEvent,
-	ProgressStartEvent, ProgressUpdateEvent, ProgressEndEvent, InvalidatedEvent,
-	Thread, StackFrame, Scope, Source, Handles, Breakpoint, ContinuedEvent
+	InitializedEvent, TerminatedEvent, StoppedEvent, BreakpointEvent, InvalidatedEvent, OutputEvent, CapabilitiesEvent,
+	ProgressStartEvent, ProgressUpdateEvent, ProgressEndEvent,
+	Thread, StackFrame, Scope, Source, ContinuedEvent, ThreadEvent
 } from 'vscode-debugadapter';
 import { DebugProtocol } from 'vscode-debugprotocol';
 import { Subject } from 'await-notify';
-import WebSocket from 'ws';
-import * as request from 'request';
 import { LogOutputEvent } from 'vscode-debugadapter/lib/logger';
-import * as path from 'path';
+import { PathMapper, PathMapping, basename } from './pathMapping';
+import { DebugSocket, Transport, TransportOptions, TransportResponse } from './transport';
+import { ServerInfo, ServerFeature, LegacyServerInfo, ExceptionBreakpointFilters, serverCapabilities, compatibilityWarning, combinedServerInfo, serverFeatures } from './serverInfo';
+import { NodeDetails, ThingworxNode, createNodes, clientID, nodeID } from './nodes';
+import { LogLevel, LogMessage, LogOptions, ServerLog, logLevel, logCategory, entityPattern, shouldPrintLog } from './serverLogs';
+import { SessionRecorder, RecordingTransport, ReplayTransport, parseRecording, redactedRequest } from './sessionRecording';
+import { FormatOptions, FormatOption, DefaultFormatOptions, formatValue, valueKind, valueExpression } from './valueFormat';
+import { parseCompletionContext, ThingworxGlobals, ThingworxCollections, memberNamesExpression, entityNamesExpression, parseEvaluatedJSON, hasSideEffects, isMemberPath } from './completions';
 
-/**
- * This interface describes the mock-debug specific launch attributes
- * (which are not part of the Debug Adapter Protocol).
- * The schema for these attributes lives in the package.json of the mock-debug extension.
- * The interface should always match this schema.
- */
-interface ILaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
-	/** An absolute path to the "program" to debug. */
-	program: string;
-	/** Automatically stop target after launch. If not specified, target does not stop. */
-	stopOnEntry?: boolean;
-	/** enable logging the Debug Adapter Protocol */
-	trace?: boolean;
-	/** run without debugging */
-	noDebug?: boolean;
-	/** if specified, results in a simulated compile error in launch. */
-	compileError?: 'default' | 'show' | 'hide';
-}
+export interface AttachRequestArguments extends DebugProtocol.AttachRequestArguments, TransportOptions {
 
-interface AttachRequestArguments extends DebugProtocol.AttachRequestArguments {
+	/**
+	 * The URL of the thingworx server, including its context path, e.g. `https://example.com/Thingworx`.
+	 * When specified, this is used instead of `thingworxDomain`, `thingworxPort` and `useSSL`.
+	 */
+	thingworxUrl?: string;
 	
 	/**
 	 * The domain name of the thingworx server. This must not contain any protocol
 	 * or path.
 	 */
-	thingworxDomain: string;
+	thingworxDomain?: string;
 
 	/**
 	 * Whether SSL should be used when connecting to the given server.
 	 */
-	useSSL: boolean;
+	useSSL?: boolean;
+
+	/**
+	 * An optional list of thingworx servers to attach to at the same time, such as the nodes of a high availability
+	 * cluster. When specified, this is used instead of the connection details of the configuration itself.
+	 * All nodes use the same credentials.
+	 */
+	servers?: NodeDetails[];
 
 	/**
 	 * An app key to use when connecting to the thingworx server. The app key must be for the administrator user.
+	 * When using the `appKey` or `secretStorage` authentication modes, this is resolved by the extension before
+	 * the debug session starts.
+	 */
+	thingworxAppKey?: string;
+
+	/**
+	 * When using the `basic` authentication mode, the name of the user to log in as.
+	 */
+	thingworxUsername?: string;
+
+	/**
+	 * When using the `basic` authentication mode, the password of the user, which is resolved by the extension
+	 * before the debug session starts.
 	 */
-	thingworxAppKey: string;
+	thingworxPassword?: string;
 
 	/**
 	 * The port number of the thingworx server.
 	 */
-	thingworxPort: number;
+	thingworxPort?: number;
 
-}
+	/**
+	 * The absolute path to the local folder containing the project. When specified together with `remoteRoot`,
+	 * this is a shorthand for a single entry in `pathMappings`.
+	 */
+	localRoot?: string;
 
+	/**
+	 * The absolute path of the folder in which the project was located when it was built and deployed
+	 * to the thingworx server.
+	 */
+	remoteRoot?: string;
 
-export class ThingworxDebugSession extends LoggingDebugSession {
+	/**
+	 * An optional list of mappings between local folders and the folders in which the project was located
+	 * when it was built. If specified, only sources that match a mapping can be debugged.
+	 */
+	pathMappings?: PathMapping[];
 
 	/**
-	 * The websocket used to recieve messages from the thingworx server.
+	 * The number of seconds during which the debugger attempts to reconnect after losing the connection
+	 * to the thingworx server, before ending the debug session. Defaults to 60 seconds.
 	 */
-	private _websocket?: WebSocket;
+	reconnectTimeout?: number;
 
 	/**
-	 * The thingworx appkey to use for authentication.
+	 * The number of seconds after which requests to the debug server are abandoned. Defaults to 30 seconds.
+	 * When set to 0, requests wait for the server indefinitely. Services invoked by launching are never abandoned.
 	 */
-	private appKey?: string;
+	requestTimeout?: number;
 
 	/**
-	 * The thingworx server domain.
+	 * The least severe level of the thingworx log messages printed to the debug console. Defaults to `TRACE`.
 	 */
-	private domain?: string;
+	logLevel?: LogLevel;
 
 	/**
-	 * The thingworx server port.
+	 * Other thingworx logs whose messages are printed to the debug console, in addition to the messages
+	 * logged by the services being debugged.
 	 */
-	private port?: string;
+	serverLogs?: ServerLog[];
 
 	/**
-	 * Whether the thingworx server uses SSL.
+	 * When specified, only the messages of the other thingworx logs that were logged by entities matching this pattern
+	 * are printed. `*` matches any characters, `?` matches a single character, and several patterns may be separated by commas.
 	 */
-	private useSSL?: boolean;
+	serverLogEntities?: string;
 
-	private _configurationDone = new Subject();
+	/**
+	 * The path of a file to which the debug adapter protocol messages, service invocations and websocket messages
+	 * of the debug session are recorded, one JSON entry per line. Credentials are not recorded.
+	 */
+	recordSession?: string;
+
+	/**
+	 * The path of a recorded debug session to replay instead of connecting to the thingworx server. Unless specified,
+	 * the other settings are the ones used by the recorded session.
+	 */
+	replaySession?: string;
+
+	/**
+	 * Enable logging the Debug Adapter Protocol.
+	 */
+	trace?: boolean;
+
+}
 
-	private _cancellationTokens = new Map<number, boolean>();
+/**
+ * The launch attributes, which include the connection details used when attaching as well as
+ * the service to invoke on the thingworx server.
+ */
+interface LaunchRequestArguments extends AttachRequestArguments {
 
 	/**
-	 * Creates a new debug adapter that is used to attach to thingworx.
+	 * The collection containing the entity whose service should be invoked, e.g. `Things` or `Resources`.
+	 * Defaults to `Things`.
 	 */
-	public constructor() {
-		super();
-	}
+	entityType?: string;
 
 	/**
-	 * Invokes the given Thingworx debugger service.
-	 * @param name 		The name of the service to invoke.
-	 * @param args		An optional object containing the arguments to send.
+	 * The name of the entity whose service should be invoked.
 	 */
-	private async invokeService(name: string, args: {[key: string]: any} = {}): Promise<any> {
-		const url = `${this.useSSL ? 'https' : 'http'}://${this.domain}:${this.port}/Thingworx/Things/BMDebugServer/Services/${name}`;
-
-		return await new Promise((resolve, reject) => {
-			request.post({
-				url,
-				headers: {
-					'X-XSRF-TOKEN': 'TWX-XSRF-TOKEN-VALUE',
-					'Accept': 'application/json',
-					'Content-Type': 'application/json',
-					'AppKey': this.appKey,
-					'X-THINGWORX-SESSION': 'true',
-				},
-				body: JSON.stringify(args)
-			},
-			(err, response, body) => {
-				if (err) {
-					return reject(err);
-				}
+	entityName: string;
 
-				if (response.statusCode != 200) {
-					return reject(new Error(`Server returned status code ${response.statusCode}`));
-				}
+	/**
+	 * The name of the service to invoke.
+	 */
+	serviceName: string;
 
-				try {
-					return resolve(JSON.parse(body));
-				}
-				catch (e) {
-					return reject(e);
-				}
-			});
-		});
+	/**
+	 * The parameters with which to invoke the service. Infotable parameters are specified as objects
+	 * containing a `dataShape` and `rows`.
+	 */
+	parameters?: {[name: string]: any};
+
+	/**
+	 * Automatically stop when the service is invoked. If not specified, the service does not stop.
+	 */
+	stopOnEntry?: boolean;
+
+	/**
+	 * Run the service without debugging.
+	 */
+	noDebug?: boolean;
+}
+
+/**
+ * Formats the result of a service invocation for display in the debug console. Services that return a single
+ * value are formatted as that value, while services that return infotables are formatted as their rows.
+ * @param result 		The infotable returned by the service.
+ * @returns 			The formatted result.
+ */
+function formatServiceResult(result: any): string {
+	if (!result || !result.rows) {
+		return JSON.stringify(result, null, 2);
+	}
+
+	const fields = Object.keys((result.dataShape && result.dataShape.fieldDefinitions) || {});
+	if (fields.length == 1 && fields[0] == 'result' && result.rows.length <= 1) {
+		const value = result.rows.length ? result.rows[0].result : undefined;
+		return typeof value == 'string' ? value : JSON.stringify(value, null, 2);
 	}
 
+	return JSON.stringify(result.rows, null, 2);
+}
+
+/**
+ * Describes the client-side settings of a breakpoint that has been set on the thingworx server.
+ * Conditions, hit conditions and log messages are evaluated by the debug adapter whenever
+ * the server reports that a thread was suspended at the breakpoint's location.
+ */
+interface BreakpointSettings {
+
 	/**
-	 * The 'initialize' request is the first request called by the frontend
-	 * to interrogate the features the debug adapter provides.
+	 * The line on which the server placed the breakpoint.
 	 */
-	protected initializeRequest(response: DebugProtocol.InitializeResponse, args: DebugProtocol.InitializeRequestArguments): void {
+	line: number;
 
-		if (args.supportsProgressReporting) {
+	/**
+	 * An optional expression that must evaluate to a truthy value for the breakpoint to suspend.
+	 */
+	condition?: string;
+
+	/**
+	 * An optional expression that controls how many hits of the breakpoint are ignored.
+	 */
+	hitCondition?: string;
+
+	/**
+	 * If specified, the breakpoint will log this message and continue instead of suspending.
+	 */
+	logMessage?: string;
+
+	/**
+	 * The number of times this breakpoint has been hit and its condition was satisfied.
+	 */
+	hits: number;
+}
+
+/**
+ * Tests whether the given hit count satisfies a hit condition. Hit conditions are made up of an optional
+ * operator (`>`, `>=`, `<`, `<=`, `==`, `===` or `%`) followed by a number. When the operator is omitted,
+ * the condition is satisfied when the hit count reaches the given number.
+ * @param hitCondition		The hit condition to test.
+ * @param hits				The current hit count.
+ * @returns					`true` if the hit count satisfies the condition, `false` if it doesn't
+ * 							or `undefined` if the hit condition is not valid.
+ */
+function hitConditionMatches(hitCondition: string, hits: number): boolean | undefined {
+	const match = /^\s*(>=|<=|===|==|>|<|%)?\s*(\d+)\s*$/.exec(hitCondition);
+	if (!match) {
+		return undefined;
+	}
+
+	const value = parseInt(match[2], 10);
+	switch (match[1]) {
+		case '>':
+			return hits > value;
+		case '<':
+			return hits < value;
+		case '<=':
+			return hits <= value;
+		case '==':
+		case '===':
+			return hits == value;
+		case '%':
+			return value > 0 && hits % value == 0;
+		default:
+			return hits >= value;
+	}
+}
+
+/**
+ * Tests whether an exception matches the condition of an exception filter. The condition is either a regular
+ * expression delimited by slashes, e.g. `/timed? ?out/i`, which is tested against the exception's type and message,
+ * or a comma-separated list of exception types, e.g. `TypeError, java.lang.NullPointerException`. Conditions that
+ * start with `!` match the exceptions that don't match the rest of the condition.
+ * @param condition 		The condition.
+ * @param exception 		The exception details.
+ * @returns 				`true` if the exception matches the condition, `false` otherwise.
+ */
+function exceptionConditionMatches(condition: string, exception: DebugProtocol.ExceptionDetails): boolean {
+	condition = condition.trim();
+	if (condition.startsWith('!')) {
+		return !exceptionConditionMatches(condition.substring(1), exception);
+	}
+
+	const candidates = [exception.typeName, exception.fullTypeName, exception.message].filter(c => c) as string[];
+
+	const regex = /^\/(.*)\/([a-z]*)$/.exec(condition);
+	if (regex) {
+		try {
+			const expression = new RegExp(regex[1], regex[2]);
+			return candidates.some(c => expression.test(c));
 		}
-		if (args.supportsInvalidatedEvent) {
+		catch (e) {
+			// An invalid regular expression is treated as a list of names
 		}
+	}
 
-		// build and return the capabilities of this debug adapter:
-		response.body = response.body || {};
+	const names = condition.split(',').map(n => n.trim()).filter(n => n);
+	return names.some(n => n == exception.typeName || n == exception.fullTypeName);
+}
 
-		// the adapter implements the configurationDone request.
-		response.body.supportsConfigurationDoneRequest = true;
+/**
+ * Converts an exception returned by the `getExceptionDetails` service into the form used by the debug protocol.
+ * Javascript errors that wrap java exceptions report the java exception as their cause, so the cause chain
+ * is converted into nested inner exceptions.
+ * @param exception 		The exception returned by the server.
+ * @param depth 			The depth of the exception in the cause chain.
+ * @returns 				The exception details.
+ */
+function exceptionDetails(exception: any, depth = 0): DebugProtocol.ExceptionDetails {
+	const stack = exception.stackTrace || exception.stack;
+	const details: DebugProtocol.ExceptionDetails = {
+		typeName: exception.typeName || exception.name || exception.type || exception.javaClass,
+		fullTypeName: exception.fullTypeName || exception.javaClass,
+		message: exception.message || exception.description,
+		stackTrace: Array.isArray(stack) ? stack.join('\n') : stack
+	};
+
+	const cause = exception.cause || exception.innerException;
+	if (cause && depth < 20) {
+		details.innerException = (Array.isArray(cause) ? cause : [cause]).map(c => exceptionDetails(c, depth + 1));
+	}
 
-		// make VS Code use 'evaluate' when hovering over source
-		response.body.supportsEvaluateForHovers = true;
+	return details;
+}
 
-		// make VS Code show a 'step back' button
-		response.body.supportsStepBack = false;
+/**
+ * Describes the service targeted by a function breakpoint.
+ */
+interface FunctionBreakpointTarget {
 
-		// make VS Code support data breakpoints
-		response.body.supportsDataBreakpoints = false;
+	/**
+	 * The name of the entity that defines the service.
+	 */
+	entityName: string;
 
-		// make VS Code support completion in REPL
-		response.body.supportsCompletionsRequest = true;
-		response.body.completionTriggerCharacters = [ ".", "[" ];
+	/**
+	 * The name of the service.
+	 */
+	serviceName: string;
 
-		// make VS Code send cancel request
-		response.body.supportsCancelRequest = false;
+	/**
+	 * Set to `true` when the breakpoint uses the `Template::Service` syntax, in which case the breakpoint
+	 * applies to the service as inherited by any thing that implements the given template or shape.
+	 */
+	inherited: boolean;
+}
 
-		// make VS Code send the breakpointLocations request
-		response.body.supportsBreakpointLocationsRequest = true;
+/**
+ * Parses the name of a function breakpoint. Function breakpoint names use either the `Entity.Service` syntax
+ * to target a service defined on a specific entity or the `Template::Service` syntax to target a service
+ * defined on a thing template or thing shape. Because entity names may themselves contain periods, the
+ * service name is considered to be the part following the last period.
+ * @param name 		The function breakpoint name.
+ * @returns 		The targeted service, or `undefined` if the name is not valid.
+ */
+function parseFunctionBreakpointName(name: string): FunctionBreakpointTarget | undefined {
+	name = name.trim();
+
+	let separatorIndex = name.indexOf('::');
+	let separatorLength = 2;
+	const inherited = separatorIndex != -1;
+	if (!inherited) {
+		separatorIndex = name.lastIndexOf('.');
+		separatorLength = 1;
+	}
 
-		// make VS Code provide "Step in Target" functionality
-		response.body.supportsStepInTargetsRequest = false;
+	const entityName = name.substring(0, separatorIndex).trim();
+	const serviceName = name.substring(separatorIndex + separatorLength).trim();
+	if (separatorIndex == -1 || !entityName || !serviceName || /[.:\s]/.test(serviceName)) {
+		return undefined;
+	}
 
-		// the adapter defines two exceptions filters, one with support for conditions.
-		response.body.supportsExceptionFilterOptions = true;
-		response.body.exceptionBreakpointFilters = [
-			{
-				filter: 'exceptions',
-				label: "All Exceptions",
-				description: `Break when errors are thrown or when a function exits as a result of an error being thrown.`,
-				default: false,
-				supportsCondition: false,
-				conditionDescription: `Enter the exception's name`
-			},
-			{
-				filter: 'caughtExceptions',
-				label: "Caught Exceptions",
-				description: `Break when errors are thrown or when a function exits as a result of an error being thrown and that error is caught.`,
-				default: false,
-				supportsCondition: false,
-				conditionDescription: `Enter the exception's name`
-			},
-			{
-				filter: 'uncaughtExceptions',
-				label: "Uncaught Exceptions",
-				description: `Break when errors are thrown or when a function exits as a result of an error being thrown and that error is not caught.`,
-				default: false,
-				supportsCondition: false,
-				conditionDescription: `Enter the exception's name`
-			},
-		];
+	return {entityName, serviceName, inherited};
+}
 
-		// make VS Code send exceptionInfo request
-		response.body.supportsExceptionInfoRequest = true;
+/**
+ * The labels used to describe what triggered a thread, based on the origin reported by the thingworx server.
+ */
+const ThreadOrigins: {[origin: string]: string} = {
+	subscription: 'Subscription',
+	timer: 'Timer',
+	scheduler: 'Scheduler',
+	rest: 'REST',
+	mashup: 'Mashup'
+};
 
-		// make VS Code send setVariable request
-		response.body.supportsSetVariable = true;
+/**
+ * Formats the given duration into a short human readable string, such as `2m 15s`.
+ * @param milliseconds 		The duration to format.
+ * @returns 				The formatted duration.
+ */
+function formatDuration(milliseconds: number): string {
+	const seconds = Math.max(0, Math.floor(milliseconds / 1000));
+	if (seconds < 60) {
+		return `${seconds}s`;
+	}
 
-		// make VS Code send setExpression request
-		response.body.supportsSetExpression = true;
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) {
+		return `${minutes}m ${seconds % 60}s`;
+	}
 
-		// make VS Code send disassemble request
-		response.body.supportsDisassembleRequest = false;
-		response.body.supportsSteppingGranularity = false;
-		response.body.supportsInstructionBreakpoints = false;
+	return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
 
-		this.sendResponse(response);
+/**
+ * Builds the name displayed for a thread in the call stack view from the metadata reported by the thingworx
+ * server, for example `MyThing.CalculateOEE (Subscription, Administrator) suspended 12s`. Threads for which
+ * the server doesn't report any metadata are named after their ID.
+ * @param thread 		The thread row returned by the `getThreads` service.
+ * @returns 			The thread name.
+ */
+function threadName(thread: any): string {
+	if (!thread.entityName && !thread.serviceName) {
+		return `Thread ${thread.ID.toFixed()}`;
+	}
 
-		// since this debug adapter can accept configuration requests like 'setBreakpoint' at any time,
-		// we request them early by sending an 'initializeRequest' to the frontend.
-		// The frontend will end the configuration sequence by calling 'configurationDone' request.
-		this.sendEvent(new InitializedEvent());
+	let name = [thread.entityName, thread.serviceName].filter(n => n).join('.');
+
+	const details = [ThreadOrigins[thread.origin] || thread.origin, thread.user].filter(d => d);
+	if (details.length) {
+		name += ` (${details.join(', ')})`;
+	}
+
+	if (thread.suspendedTime) {
+		name += ` suspended ${formatDuration(Date.now() - thread.suspendedTime)}`;
 	}
 
+	return name;
+}
+
+/**
+ * The services whose results only change when threads are suspended or resumed, which are cached until then.
+ */
+const CachedServices = ['getThreads', 'getStackTraceInThread', 'getScopesInThread', 'getVariableContents', 'getExceptionDetails'];
+
+/**
+ * The first variables reference used for variables created by the debug adapter, which is chosen to be
+ * well above the references assigned by the thingworx servers.
+ */
+const SyntheticReferenceBase = 0x40000000;
+
+/**
+ * The number of levels of nested objects included when servers that can't serialize variables are
+ * asked for the data of a variable.
+ */
+const MaxVariableDataDepth = 4;
+
+/**
+ * The number of requests that may be made to assemble the data of a variable for servers that can't serialize
+ * variables, beyond which the variable is considered too large to view.
+ */
+const MaxVariableDataRequests = 250;
+
+/**
+ * Describes a variable sent to the client, which may specify the context menu commands that apply to it.
+ */
+export interface ClientVariable extends DebugProtocol.Variable {
+
 	/**
-	 * Called at the end of the configuration sequence.
-	 * Indicates that all breakpoints etc. have been sent to the DA and that the 'launch' can start.
+	 * The context value used by VS Code to show the variable's context menu commands.
 	 */
-	protected configurationDoneRequest(response: DebugProtocol.ConfigurationDoneResponse, args: DebugProtocol.ConfigurationDoneArguments): void {
-		super.configurationDoneRequest(response, args);
+	__vscodeVariableMenuContext?: string;
+}
 
-		// notify the launchRequest that configuration has finished
-		this._configurationDone.notify();
+/**
+ * Converts the value of a variable, as rendered by the thingworx server, into the javascript value it represents.
+ * @param value 	The rendered value.
+ * @returns 		The value, or the rendered value if it isn't valid JSON.
+ */
+function parseVariableValue(value: string): any {
+	try {
+		return JSON.parse(value);
+	}
+	catch (e) {
+		return value;
 	}
+}
 
-	protected async attachRequest(response: DebugProtocol.AttachResponse, args: AttachRequestArguments, request: DebugProtocol.AttachRequest) {
-		// Save the connection details for use when performing requests
-		this.domain = args.thingworxDomain;
-		this.port = args.thingworxPort.toFixed();
-		this.useSSL = args.useSSL;
-		this.appKey = args.thingworxAppKey;
+/**
+ * Creates the synthetic variable that describes the data shape of an infotable, whose children are the field definitions.
+ * @param dataShape 	The data shape, as reported by the thingworx server.
+ * @param reference 	The variables reference to assign to the variable.
+ * @returns 			The variable and its children.
+ */
+function dataShapeVariable(dataShape: any, reference: number): {variable: DebugProtocol.Variable, children: DebugProtocol.Variable[]} {
+	const fieldDefinitions: any[] = Object.keys(dataShape.fieldDefinitions || {}).map(name => dataShape.fieldDefinitions[name]);
+	fieldDefinitions.sort((a, b) => (a.ordinal || 0) - (b.ordinal || 0));
+
+	const children = fieldDefinitions.map(field => ({
+		name: field.name,
+		value: field.aspects && field.aspects.isPrimaryKey ? `${field.baseType} (primary key)` : field.baseType,
+		type: 'FieldDefinition',
+		variablesReference: 0
+	}));
+
+	return {
+		variable: {
+			name: 'dataShape',
+			value: dataShape.name || `${children.length} fields`,
+			type: 'DataShape',
+			variablesReference: reference,
+			namedVariables: children.length,
+			presentationHint: {kind: 'virtual'}
+		},
+		children
+	};
+}
 
-		// Attempt to connect to the debug websocket
-		const protocol = args.useSSL ? 'wss' : 'ws';
+export class ThingworxDebugSession extends LoggingDebugSession {
 
-		const websocket = new WebSocket(`${protocol}://${args.thingworxDomain}:${args.thingworxPort | 0}/Thingworx/ThingworxDebugger`);
-		this._websocket = websocket;
+	/**
+	 * The thingworx servers that the debug session is attached to.
+	 */
+	private _nodes: ThingworxNode[] = [];
 
-		websocket.onmessage = async e => {
-			// Upon recieving a success message, mark the attach request as successful
-			try {
-				const socketResponse = JSON.parse(e.data as string);
-				if (socketResponse.authenticated) {
-					try {
-						// Inform the debug server that a debugger connected
-						this.invokeService('connectDebugger');
-						this.sendResponse(response);
-					}
-					catch (e) {
-						this._websocket?.close();
-						this.sendErrorResponse(response, {
-							id: 0,
-							format: 'Unable to process request',
-							showUser: true
-						});
-					}
-				}
+	/**
+	 * The thingworx appkey to use for authentication.
+	 */
+	private appKey?: string;
 
-				// Set up a different message listener that will deal with events from the server
-				websocket.onmessage = e => this._didRecieveMessageWithEvent(e);
-				websocket.onerror = e => void 0;
-			}
-			catch (e) {
-				// If unexpected data is sent, disconnect and mark the attach request as failed
-				websocket.close();
-				this._websocket = undefined;
-				this.sendErrorResponse(response, {
-					id: 0,
-					format: 'Unable to process request',
-					showUser: true
-				});
-			}
-		};
+	/**
+	 * When using basic authentication, the name of the user to log in as.
+	 */
+	private username?: string;
 
-		websocket.onopen = e => {
-			// Upon opening, authenticate using the app key
-			websocket.send(JSON.stringify({appKey: args.thingworxAppKey}));
-		};
+	/**
+	 * When using basic authentication, the password of the user.
+	 */
+	private password?: string;
 
-		websocket.onerror = e => {
-			// If unable to connect, send the error response and stop
-			this.sendErrorResponse(response, {id: 0, format: e.message, showUser: true});
-		}
-	}
+	/**
+	 * Translates between local paths and the paths used by the thingworx server.
+	 */
+	private pathMapper: PathMapper;
 
-	protected disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments, request?: DebugProtocol.Request): void {
-		try {
-			// Inform the debug server that a debugger disconnected
-			this.invokeService('disconnectDebugger');
-			this._websocket?.close();
-		}
-		catch (e) {
-			this.sendErrorResponse(response, {id: 0, format: 'Unable to disconnect', showUser: true});
-		}
-	}
+	/**
+	 * The number of seconds during which to attempt reconnecting after losing the connection to the server.
+	 */
+	private reconnectTimeout = 60;
 
 	/**
-	 * Invoked when a message is sent by the thingworx server.
-	 * @param event 	The message event.
+	 * The number of seconds after which requests to the debug server are abandoned, or 0 to wait indefinitely.
 	 */
-	private _didRecieveMessageWithEvent(event: WebSocket.MessageEvent): void {
-		let message;
-		try {
-			message = JSON.parse(event.data as string);
-		}
-		catch (e) {
-			// Ignore messages that can't be parsed
-		}
+	private requestTimeout = 30;
 
-		switch (message.name) {
+	/**
+	 * Determines which of the log messages sent by the thingworx server are printed to the debug console.
+	 */
+	private _logOptions: LogOptions = {minimumLevel: 'TRACE', serverLogs: []};
+
+	/**
+	 * Set to `true` when the client requests the debugger to disconnect, to prevent reconnecting.
+	 */
+	private _isDisconnecting = false;
+
+	/**
+	 * Contains the functions used to apply the most recent breakpoints and exception settings specified
+	 * by the client, which are applied again after reconnecting.
+	 */
+	private _breakpointRequests = new Map<string, () => Promise<DebugProtocol.Breakpoint[] | void>>();
+
+	/**
+	 * Contains the most recent breakpoints reported to the client for each entry in `_breakpointRequests`.
+	 */
+	private _reportedBreakpoints = new Map<string, DebugProtocol.Breakpoint[]>();
+
+	private _configurationDone = new Subject();
+
+	/**
+	 * Contains the controllers used to abort the server requests made on behalf of each client request
+	 * that has not been responded to yet, keyed by the sequence number of the client request.
+	 */
+	private _cancellableRequests = new Map<number, AbortController>();
+
+	/**
+	 * Contains the controllers used to abort the operations whose progress is being reported, keyed by progress ID.
+	 */
+	private _progressOperations = new Map<string, AbortController>();
+
+	/**
+	 * The number of progress reports started so far, used to create progress IDs.
+	 */
+	private _progressCount = 0;
+
+	/**
+	 * Whether the client supports progress events.
+	 */
+	private _reportProgress = false;
+
+	/**
+	 * Contains the client-side settings of the breakpoints in each file, keyed by the
+	 * path that was sent to the thingworx server.
+	 */
+	private _breakpoints: {[path: string]: BreakpointSettings[]} = {};
+
+	/**
+	 * Contains the client-side settings of the function breakpoints, keyed by the path
+	 * of the file containing the service, as reported by the thingworx server.
+	 */
+	private _functionBreakpoints: {[path: string]: BreakpointSettings[]} = {};
+
+	/**
+	 * Contains the IDs of the threads that were resumed by the debug adapter after a conditional
+	 * breakpoint or logpoint was hit, whose resumed messages should not be reported to the client.
+	 */
+	private _autoResumedThreads = new Set<number>();
+
+	/**
+	 * Maps the client IDs of the data breakpoints that are currently set on the thingworx servers to the IDs
+	 * reported to the client, which differ once the breakpoints have been restored after reconnecting.
+	 */
+	private _dataBreakpointIDs = new Map<number, number>();
+
+	/**
+	 * Maps the exception filters enabled by the client to their conditions, which are empty for filters without a condition.
+	 */
+	private _exceptionFilters = new Map<string, string>();
+
+	/**
+	 * The most recent function breakpoints specified by the client.
+	 */
+	private _functionBreakpointArgs: DebugProtocol.SetFunctionBreakpointsArguments = {breakpoints: []};
+
+	/**
+	 * When a service is launched with `stopOnEntry`, a temporary function breakpoint set on that service,
+	 * which is removed when it is hit.
+	 */
+	private _entryBreakpoint?: FunctionBreakpointTarget;
+
+	/**
+	 * The client ID of the entry breakpoint, as assigned by the thingworx server.
+	 */
+	private _entryBreakpointID?: number;
+
+	/**
+	 * Describes the features that the debug server extensions installed on all nodes have in common.
+	 */
+	private _serverInfo: ServerInfo = LegacyServerInfo;
+
+	/**
+	 * The options used to format values, which are changed by the `toggleFormatting` request.
+	 */
+	private _formatOptions: FormatOptions = Object.assign({}, DefaultFormatOptions);
+
+	/**
+	 * Whether the client supports the `invalidated` event.
+	 */
+	private _useInvalidatedEvent = false;
+
+	/**
+	 * Contains the results of the services in `CachedServices`, keyed by node, service and arguments, together with
+	 * the client ID of the thread they describe. The results of a thread are cleared whenever it is suspended,
+	 * resumed or stepped, and all results are cleared when a variable may have been modified.
+	 */
+	private _stopCache = new Map<string, {result: Promise<any>, threadID?: number}>();
+
+	/**
+	 * Contains the client IDs of the threads that own the variables references reported to the client. A reference
+	 * remains valid until its thread is resumed, while references without a thread remain valid until all threads are resumed.
+	 */
+	private _referenceThreads = new Map<number, number>();
+
+	/**
+	 * Contains the data shapes of the infotables reported to the client, keyed by their variables reference.
+	 */
+	private _infotableDataShapes = new Map<number, any>();
+
+	/**
+	 * Contains the children of the variables created by the debug adapter, keyed by their variables reference.
+	 */
+	private _syntheticVariables = new Map<number, DebugProtocol.Variable[]>();
+
+	/**
+	 * The variables reference assigned to the next variable created by the debug adapter. References are never reused,
+	 * so that references still held by the client can't refer to different variables.
+	 */
+	private _nextSyntheticReference = SyntheticReferenceBase;
+
+	/**
+	 * Records the traffic of the debug session when the `recordSession` setting is specified.
+	 */
+	private _recorder = new SessionRecorder(e => this._log(`Unable to record the debug session. ${e.message}`, Logger.LogLevel.Warn));
+
+	/**
+	 * Creates a new debug adapter that is used to attach to thingworx.
+	 * @param transport 	The transport used to communicate with the thingworx server.
+	 */
+	public constructor(private transport: Transport) {
+		super();
+		this.pathMapper = new PathMapper([], transport.platform);
+	}
+
+	/**
+	 * Invokes the given Thingworx debugger service. The results of the services that describe suspended threads
+	 * are cached until the threads are resumed.
+	 * @param name 		The name of the service to invoke.
+	 * @param args		An optional object containing the arguments to send.
+	 * @param node 		The node on which to invoke the service. Defaults to the first connected node.
+	 * @param signal 	An optional signal that cancels the request.
+	 * @param entity 	The path of the entity whose service to invoke. Defaults to the debug server.
+	 */
+	private invokeService(name: string, args: {[key: string]: any} = {}, node: ThingworxNode = this._defaultNode(), signal?: AbortSignal, entity: string = 'Things/BMDebugServer'): Promise<any> {
+		if (entity != 'Things/BMDebugServer' || !CachedServices.includes(name)) {
+			return this._post(name, args, node, signal, entity);
+		}
+
+		const key = this._cacheKey(name, args, node);
+		const entry = this._stopCache.get(key);
+		if (entry) {
+			return entry.result;
+		}
+
+		// Results are owned by the thread they describe, or by the thread that owns the variable they describe
+		const threadID = typeof args.threadID == 'number' ? this._clientID(args.threadID, node) :
+			typeof args.reference == 'number' ? this._referenceThreads.get(this._clientID(args.reference, node)) :
+			undefined;
+		const result = this._post(name, args, node, signal, entity);
+		this._cache(key, result, threadID);
+		return result;
+	}
+
+	/**
+	 * Returns the key under which the result of a service is cached.
+	 * @param name 		The name of the service.
+	 * @param args 		The arguments of the service.
+	 * @param node 		The node on which the service is invoked.
+	 * @returns 		The key.
+	 */
+	private _cacheKey(name: string, args: {[key: string]: any}, node: ThingworxNode): string {
+		return `${node.index}/${name}/${JSON.stringify(args)}`;
+	}
+
+	/**
+	 * Caches the result of a service until the next time the cache is cleared. Failed requests are not cached.
+	 * @param key 			The key returned by `_cacheKey`.
+	 * @param result 		A promise that resolves with the result.
+	 * @param threadID 		The client ID of the thread described by the result, if any.
+	 */
+	private _cache(key: string, result: Promise<any>, threadID?: number): void {
+		this._stopCache.set(key, {result, threadID});
+		result.catch(e => {
+			const entry = this._stopCache.get(key);
+			if (entry && entry.result === result) {
+				this._stopCache.delete(key);
+			}
+		});
+	}
+
+	/**
+	 * Clears the cached results, after which they are requested from the server again. The variables references
+	 * reported to the client remain valid.
+	 */
+	private _invalidateCache(): void {
+		this._stopCache.clear();
+	}
+
+	/**
+	 * Clears the cached results and variables references of the given thread, after it was suspended, resumed or stepped.
+	 * Results that don't describe a single thread, such as the list of threads, are cleared as well.
+	 * @param threadID 		The client ID of the thread, or `undefined` to clear the state of all threads.
+	 */
+	private _invalidateThread(threadID?: number): void {
+		if (threadID === undefined) {
+			this._stopCache.clear();
+			this._referenceThreads.clear();
+			this._infotableDataShapes.clear();
+			this._syntheticVariables.clear();
+			return;
+		}
+
+		for (const [key, entry] of this._stopCache) {
+			if (entry.threadID === undefined || entry.threadID == threadID) {
+				this._stopCache.delete(key);
+			}
+		}
+
+		for (const [reference, owner] of this._referenceThreads) {
+			if (owner == threadID) {
+				this._referenceThreads.delete(reference);
+				this._infotableDataShapes.delete(reference);
+				this._syntheticVariables.delete(reference);
+			}
+		}
+	}
+
+	/**
+	 * Sends a request to the given Thingworx service.
+	 * @param name 		The name of the service to invoke.
+	 * @param args		An object containing the arguments to send.
+	 * @param node 		The node on which to invoke the service.
+	 * @param signal 	An optional signal that cancels the request.
+	 * @param entity 	The path of the entity whose service to invoke.
+	 */
+	private async _post(name: string, args: {[key: string]: any}, node: ThingworxNode, signal: AbortSignal | undefined, entity: string): Promise<any> {
+		const url = `${node.baseUrl}/${entity}/Services/${encodeURIComponent(name)}`;
+
+		// The request is aborted either when it is cancelled or when the server takes too long to respond
+		const controller = new AbortController();
+		const abort = () => controller.abort();
+		if (signal) {
+			signal.addEventListener('abort', abort);
+			if (signal.aborted) {
+				abort();
+			}
+		}
+		// Services of other entities, such as the service being debugged, may wait at a breakpoint for any amount of time
+		const seconds = entity == 'Things/BMDebugServer' ? this.requestTimeout : 0;
+		const timeout: ReturnType<typeof setTimeout> | undefined = seconds ? setTimeout(abort, seconds * 1000) : undefined;
+
+		const sessionCookie = node.sessionCookie;
+		let response: TransportResponse;
+		try {
+			response = await this.transport.post(url, Object.assign({
+				'X-XSRF-TOKEN': 'TWX-XSRF-TOKEN-VALUE',
+				'Accept': 'application/json',
+				'Content-Type': 'application/json',
+				'X-THINGWORX-SESSION': 'true',
+			}, this._authenticationHeaders(node)), JSON.stringify(args), controller.signal);
+		}
+		catch (e) {
+			if (signal && signal.aborted) {
+				throw new Error(`The ${name} request was cancelled`);
+			}
+			if (controller.signal.aborted) {
+				throw new Error(`The thingworx server did not respond to the ${name} request within ${seconds} seconds`);
+			}
+			throw e;
+		}
+		finally {
+			if (timeout) {
+				clearTimeout(timeout);
+			}
+			if (signal) {
+				signal.removeEventListener('abort', abort);
+			}
+		}
+
+		// When logging in with a username and password, the server creates a session that is used for subsequent requests
+		const cookie = (response.cookies || []).find(c => c.startsWith('JSESSIONID='));
+		if (cookie) {
+			node.sessionCookie = cookie.split(';')[0];
+		}
+
+		if (response.statusCode == 401 && sessionCookie) {
+			// If the session has expired, log in again
+			node.sessionCookie = undefined;
+			return await this._post(name, args, node, signal, entity);
+		}
+
+		if (response.statusCode != 200) {
+			// Thingworx describes errors, such as exceptions thrown by services, in the response body
+			const details = response.body ? `: ${response.body.substring(0, 500)}` : '';
+			throw new Error(`Server returned status code ${response.statusCode}${details}`);
+		}
+
+		return JSON.parse(response.body);
+	}
+
+	/**
+	 * Invokes the given Thingworx debugger service on every connected node. Nodes on which the service fails
+	 * are skipped, unless it fails on all of them.
+	 * @param name 		The name of the service to invoke.
+	 * @param args 		An optional object containing the arguments to send.
+	 * @param signal 	An optional signal that cancels the requests.
+	 * @returns 		A promise that resolves with the results returned by the nodes on which the service succeeded.
+	 */
+	private async _invokeOnAllNodes(name: string, args: {[key: string]: any} = {}, signal?: AbortSignal): Promise<{node: ThingworxNode, result: any}[]> {
+		const nodes = this._connectedNodes();
+		const errors: Error[] = [];
+		const results = await Promise.all(nodes.map(node => this.invokeService(name, args, node, signal).then(
+			result => ({node, result}),
+			e => {
+				errors.push(e);
+				if (nodes.length > 1) {
+					this._log(`${name} failed on ${node.name}. ${(e as Error).message}`, Logger.LogLevel.Warn);
+				}
+			}
+		)));
+
+		const successes = results.filter(r => r) as {node: ThingworxNode, result: any}[];
+		if (!successes.length && errors.length) {
+			throw errors[0];
+		}
+		return successes;
+	}
+
+	/**
+	 * Returns the nodes whose debug websocket is currently connected.
+	 */
+	private _connectedNodes(): ThingworxNode[] {
+		return this._nodes.filter(n => n.websocket);
+	}
+
+	/**
+	 * Returns the node used for requests that don't belong to a specific node, which is the first connected node.
+	 */
+	private _defaultNode(): ThingworxNode {
+		return this._connectedNodes()[0] || this._nodes[0];
+	}
+
+	/**
+	 * Converts an ID assigned by the given node into the ID sent to the client.
+	 * @param id 		The ID assigned by the node.
+	 * @param node 		The node.
+	 * @returns 		The client ID.
+	 */
+	private _clientID(id: number, node: ThingworxNode): number {
+		return clientID(id, node, this._nodes.length);
+	}
+
+	/**
+	 * Returns the node that assigned the given client ID and the ID that it assigned.
+	 * @param id 		The client ID of a thread, stack frame, variable or breakpoint.
+	 * @returns 		The node and its ID.
+	 */
+	private _route(id: number): {node: ThingworxNode, id: number} {
+		const target = nodeID(id, this._nodes.length);
+		return {node: this._nodes[target.index], id: target.id};
+	}
+
+	/**
+	 * Returns the headers used to authenticate requests made to the given node.
+	 * @param node 		The node.
+	 * @returns 		An object containing the headers.
+	 */
+	private _authenticationHeaders(node: ThingworxNode): {[name: string]: string} {
+		if (node.sessionCookie) {
+			return {'Cookie': node.sessionCookie};
+		}
+
+		if (this.username) {
+			return {'Authorization': `Basic ${btoa(unescape(encodeURIComponent(`${this.username}:${this.password}`)))}`};
+		}
+
+		return {'AppKey': this.appKey!};
+	}
+
+	protected dispatchRequest(request: DebugProtocol.Request): void {
+		this._recorder.record({type: 'request', request: redactedRequest(request)});
+		if (this.transport instanceof ReplayTransport) {
+			this.transport.didRecieveRequest(request.command);
+		}
+
+		// Each request can be cancelled by the client while it waits for the thingworx server
+		this._cancellableRequests.set(request.seq, new AbortController());
+		super.dispatchRequest(request);
+	}
+
+	public sendResponse(response: DebugProtocol.Response): void {
+		const controller = this._cancellableRequests.get(response.request_seq);
+		this._cancellableRequests.delete(response.request_seq);
+
+		// The debug adapter protocol requires cancelled requests to fail with this message
+		if (controller && controller.signal.aborted && !response.success) {
+			response.message = 'cancelled';
+		}
+
+		this._recorder.record({type: 'response', response});
+		super.sendResponse(response);
+	}
+
+	public sendEvent(event: DebugProtocol.Event): void {
+		this._recorder.record({type: 'event', event});
+		super.sendEvent(event);
+	}
+
+	/**
+	 * Returns the signal that is aborted when the client cancels the request to which the given response belongs.
+	 * @param response 		The response.
+	 * @returns 			The signal.
+	 */
+	private _signal(response: DebugProtocol.Response): AbortSignal | undefined {
+		const controller = this._cancellableRequests.get(response.request_seq);
+		return controller && controller.signal;
+	}
+
+	/**
+	 * Runs a long operation, reporting its progress to the client if the client supports it. The client may
+	 * cancel the operation, in which case the signal passed to the operation is aborted.
+	 * @param title 		The title of the operation.
+	 * @param operation 	A function that performs the operation. It recieves a function used to report its
+	 * 						progress and a signal that is aborted when the operation is cancelled.
+	 * @param signal 		An optional signal that also cancels the operation.
+	 * @returns 			A promise that resolves with the result of the operation.
+	 */
+	private async _withProgress<T>(title: string, operation: (report: (message: string, percentage?: number) => void, signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+		const progressId = `thingworx-progress-${++this._progressCount}`;
+		const controller = new AbortController();
+		const abort = () => controller.abort();
+		if (signal) {
+			signal.addEventListener('abort', abort);
+		}
+
+		if (this._reportProgress) {
+			const start: DebugProtocol.ProgressStartEvent = new ProgressStartEvent(progressId, title);
+			start.body.cancellable = true;
+			this.sendEvent(start);
+			this._progressOperations.set(progressId, controller);
+		}
+
+		const report = (message: string, percentage?: number) => {
+			if (this._reportProgress) {
+				const update: DebugProtocol.ProgressUpdateEvent = new ProgressUpdateEvent(progressId, message);
+				update.body.percentage = percentage;
+				this.sendEvent(update);
+			}
+		};
+
+		try {
+			return await operation(report, controller.signal);
+		}
+		finally {
+			if (signal) {
+				signal.removeEventListener('abort', abort);
+			}
+			if (this._progressOperations.delete(progressId)) {
+				this.sendEvent(new ProgressEndEvent(progressId));
+			}
+		}
+	}
+
+	/**
+	 * The 'initialize' request is the first request called by the frontend
+	 * to interrogate the features the debug adapter provides.
+	 */
+	protected initializeRequest(response: DebugProtocol.InitializeResponse, args: DebugProtocol.InitializeRequestArguments): void {
+
+		if (args.supportsProgressReporting) {
+			this._reportProgress = true;
+		}
+		if (args.supportsInvalidatedEvent) {
+			this._useInvalidatedEvent = true;
+		}
+
+		// build and return the capabilities of this debug adapter:
+		response.body = response.body || {};
+
+		// the adapter implements the configurationDone request.
+		response.body.supportsConfigurationDoneRequest = true;
+
+		// make VS Code use 'evaluate' when hovering over source
+		response.body.supportsEvaluateForHovers = true;
+
+		// make VS Code show a 'step back' button
+		response.body.supportsStepBack = false;
+
+		// make VS Code support data breakpoints
+		response.body.supportsDataBreakpoints = true;
+
+		// make VS Code support completion in REPL
+		response.body.supportsCompletionsRequest = true;
+		response.body.completionTriggerCharacters = [ ".", "[" ];
+
+		// make VS Code send cancel request
+		response.body.supportsCancelRequest = true;
+
+		// make VS Code send the breakpointLocations request
+		response.body.supportsBreakpointLocationsRequest = true;
+
+		// make VS Code send setFunctionBreakpoints request
+		response.body.supportsFunctionBreakpoints = true;
+
+		// make VS Code send conditions, hit conditions and log messages with breakpoints
+		response.body.supportsConditionalBreakpoints = true;
+		response.body.supportsHitConditionalBreakpoints = true;
+		response.body.supportsLogPoints = true;
+
+		// make VS Code provide "Step in Target" functionality
+		response.body.supportsStepInTargetsRequest = false;
+
+		// the adapter defines three exception filters with support for conditions; the filters and other capabilities
+		// that depend on the debug server extension are updated after attaching.
+		response.body.supportsExceptionFilterOptions = true;
+		response.body.exceptionBreakpointFilters = ExceptionBreakpointFilters;
+
+		// make VS Code send exceptionInfo request
+		response.body.supportsExceptionInfoRequest = true;
+
+		// make VS Code send setVariable request
+		response.body.supportsSetVariable = true;
+
+		// make VS Code send setExpression request
+		response.body.supportsSetExpression = true;
+
+		// make VS Code send the format argument, e.g. to display values in hex
+		response.body.supportsValueFormattingOptions = true;
+
+		// make VS Code send disassemble request
+		response.body.supportsDisassembleRequest = false;
+		response.body.supportsSteppingGranularity = false;
+		response.body.supportsInstructionBreakpoints = false;
+
+		this.sendResponse(response);
+
+		// configuration requests like 'setBreakpoint' require a connection to the thingworx server,
+		// so the 'initialized' event is only sent after attaching.
+	}
+
+	/**
+	 * Called at the end of the configuration sequence.
+	 * Indicates that all breakpoints etc. have been sent to the DA and that the 'launch' can start.
+	 */
+	protected configurationDoneRequest(response: DebugProtocol.ConfigurationDoneResponse, args: DebugProtocol.ConfigurationDoneArguments): void {
+		super.configurationDoneRequest(response, args);
+
+		// notify the launchRequest that configuration has finished
+		this._configurationDone.notify();
+	}
+
+	protected async attachRequest(response: DebugProtocol.AttachResponse, args: AttachRequestArguments, request: DebugProtocol.AttachRequest) {
+		// make sure to 'Stop' the buffered logging if 'trace' is not set
+		logger.setup(args.trace ? Logger.LogLevel.Verbose : Logger.LogLevel.Stop, false);
+
+		try {
+			args = await this._prepareTransport(args);
+			this._configure(args);
+			await this._attach(this._signal(response));
+			this.sendResponse(response);
+		}
+		catch (e) {
+			// If unable to connect, send the error response and stop
+			this._closeWebsockets();
+			this.sendErrorResponse(response, {id: 0, format: (e as Error).message || 'Unable to process request', showUser: true});
+		}
+	}
+
+	protected async launchRequest(response: DebugProtocol.LaunchResponse, args: LaunchRequestArguments) {
+		// make sure to 'Stop' the buffered logging if 'trace' is not set
+		logger.setup(args.trace ? Logger.LogLevel.Verbose : Logger.LogLevel.Stop, false);
+
+		try {
+			args = await this._prepareTransport(args);
+			this._configure(args);
+			if (args.noDebug) {
+				// When running without debugging, there is no need to connect to the debug server
+				this.sendEvent(new InitializedEvent());
+			}
+			else {
+				await this._attach();
+			}
+		}
+		catch (e) {
+			this._closeWebsockets();
+			this.sendErrorResponse(response, {id: 0, format: (e as Error).message || 'Unable to process request', showUser: true});
+			return;
+		}
+
+		// wait 1 second until configuration has finished (and configurationDoneRequest has been called)
+		await this._configurationDone.wait(1000);
+
+		if (args.stopOnEntry && !args.noDebug) {
+			try {
+				// Stopping on entry is implemented using a function breakpoint
+				if (!this._serverInfo.features.includes('functionBreakpoints')) {
+					throw new Error('Function breakpoints are not supported');
+				}
+				this._entryBreakpoint = {entityName: args.entityName, serviceName: args.serviceName, inherited: false};
+				await this._setFunctionBreakpoints(this._functionBreakpointArgs);
+			}
+			catch (e) {
+				this._entryBreakpoint = undefined;
+				this._entryBreakpointID = undefined;
+				this._log(`Unable to stop on entry to ${args.entityName}.${args.serviceName}.`, Logger.LogLevel.Warn);
+			}
+		}
+
+		this.sendResponse(response);
+		await this._runService(args);
+		this.sendEvent(new TerminatedEvent());
+	}
+
+	/**
+	 * Invokes the given service and prints its result to the debug console.
+	 * @param args 		The launch arguments, or the arguments of a `runService` custom request, specifying the service.
+	 */
+	private async _runService(args: Pick<LaunchRequestArguments, 'entityType' | 'entityName' | 'serviceName' | 'parameters'>): Promise<void> {
+		const serviceName = `${args.entityName}.${args.serviceName}`;
+		this._log(`Invoking ${serviceName}...`, Logger.LogLevel.Log);
+
+		try {
+			const entity = `${args.entityType || 'Things'}/${encodeURIComponent(args.entityName)}`;
+			const result = await this.invokeService(args.serviceName, args.parameters || {}, undefined, undefined, entity);
+			this._log(`${serviceName} returned:\n${formatServiceResult(result)}`, Logger.LogLevel.Log);
+		}
+		catch (e) {
+			this._log(`${serviceName} failed. ${(e as Error).message}`, Logger.LogLevel.Error);
+		}
+	}
+
+	/**
+	 * Saves the connection details and options specified in the attach or launch configuration.
+	 * @param args 		The attach or launch arguments.
+	 */
+	private _configure(args: AttachRequestArguments): void {
+		// Save the connection details for use when performing requests
+		this._nodes = createNodes(args);
+		this.appKey = args.thingworxAppKey;
+		this.username = args.thingworxUsername;
+		this.password = args.thingworxPassword;
+
+		const pathMappings = (args.pathMappings || []).slice();
+		if (args.localRoot && args.remoteRoot) {
+			pathMappings.push({localRoot: args.localRoot, remoteRoot: args.remoteRoot});
+		}
+		this.pathMapper = new PathMapper(pathMappings, this.transport.platform);
+
+		this.reconnectTimeout = args.reconnectTimeout === undefined ? 60 : args.reconnectTimeout;
+		this.requestTimeout = args.requestTimeout === undefined ? 30 : args.requestTimeout;
+
+		this._logOptions = {
+			minimumLevel: args.logLevel ? logLevel(args.logLevel) : 'TRACE',
+			serverLogs: args.serverLogs || [],
+			entityPattern: args.serverLogEntities ? entityPattern(args.serverLogEntities) : undefined
+		};
+
+		this.transport.configure(args);
+	}
+
+	/**
+	 * Prepares the transport used to communicate with the thingworx server. When replaying a recorded session, the
+	 * server is replaced by the recording and the settings of the recorded session are used unless overridden. When
+	 * recording, the traffic of the transport is recorded.
+	 * @param args 		The attach or launch arguments.
+	 * @returns 		A promise that resolves with the arguments to use.
+	 */
+	private async _prepareTransport<T extends AttachRequestArguments>(args: T): Promise<T> {
+		// Recordings are read and written using the original transport
+		const fileTransport = this.transport;
+
+		if (args.replaySession) {
+			if (!fileTransport.readFile) {
+				throw new Error('Debug sessions can only be replayed when the debugger runs in node.js.');
+			}
+
+			const recording = parseRecording(await fileTransport.readFile(args.replaySession));
+			const entry = recording.find(e => e.type == 'request' && (e.request.command == 'attach' || e.request.command == 'launch'));
+			const recordedArgs = entry && entry.type == 'request' ? entry.request.arguments : {};
+
+			// The replay must not overwrite the recording it is replaying
+			args = Object.assign({}, recordedArgs, {recordSession: undefined}, args);
+			this.transport = new ReplayTransport(recording, fileTransport.platform);
+		}
+
+		if (!args.recordSession) {
+			this._recorder.stop();
+			return args;
+		}
+
+		this._recorder.start(fileTransport, args.recordSession);
+		this.transport = new RecordingTransport(this.transport, entry => this._recorder.record(entry));
+		return args;
+	}
+
+	/**
+	 * Connects to the debug server on every node and requests the client to send its configuration. Nodes that
+	 * can't be reached are retried in the background, as long as at least one node is reachable.
+	 * @param signal 	An optional signal that cancels attaching.
+	 */
+	private async _attach(signal?: AbortSignal): Promise<void> {
+		const unreachableNodes: ThingworxNode[] = [];
+
+		await this._withProgress('Attaching to Thingworx', async (report, signal) => {
+			let error: Error | undefined;
+			for (const node of this._nodes) {
+				const suffix = this._nodes.length > 1 ? ` on ${node.name}` : '';
+				try {
+					// Attempt to connect to the debug websocket
+					report(`Connecting to the debug websocket${suffix}`);
+					await this._connect(node, signal);
+
+					// Inform the debug server that a debugger connected
+					report(`Registering the debugger${suffix}`);
+					await this.invokeService('connectDebugger', {}, node, signal);
+
+					// Determine what the debug server supports before the frontend sends its configuration
+					report(`Determining the features of the debug server${suffix}`);
+					await this._negotiateCapabilities(node, signal);
+
+					report(`Subscribing to the server logs${suffix}`);
+					await this._subscribeToLogs(node, signal);
+				}
+				catch (e) {
+					this._closeWebsocket(node);
+					if (signal.aborted) {
+						throw e;
+					}
+
+					error = error || e as Error;
+					unreachableNodes.push(node);
+				}
+			}
+
+			if (!this._connectedNodes().length) {
+				throw error;
+			}
+
+			this._updateCapabilities();
+		}, signal);
+
+		for (const node of unreachableNodes) {
+			this._log(`Unable to attach to ${this._serverName(node)}. Retrying in the background...`, Logger.LogLevel.Warn);
+			this._reconnect(node);
+		}
+
+		// The frontend will end the configuration sequence by calling 'configurationDone' request.
+		this.sendEvent(new InitializedEvent());
+	}
+
+	/**
+	 * Returns how the given node is referred to in messages printed to the debug console.
+	 * @param node 		The node.
+	 * @returns 		The description of the node.
+	 */
+	private _serverName(node: ThingworxNode): string {
+		return this._nodes.length > 1 ? `the thingworx server ${node.name}` : 'the thingworx server';
+	}
+
+	/**
+	 * Requests the version and features of the debug server extension installed on the given node
+	 * and warns if it is incompatible.
+	 * @param node 		The node.
+	 * @param signal 	An optional signal that cancels the request.
+	 */
+	private async _negotiateCapabilities(node: ThingworxNode, signal?: AbortSignal): Promise<void> {
+		let info = LegacyServerInfo;
+		try {
+			const result = await this.invokeService('getDebuggerInfo', {}, node, signal);
+			const row = result && result.rows ? result.rows[0] : result;
+			info = {
+				version: typeof row.version == 'string' ? row.version : LegacyServerInfo.version,
+				protocolVersion: typeof row.protocolVersion == 'number' ? row.protocolVersion : LegacyServerInfo.protocolVersion,
+				features: serverFeatures(row.features)
+			};
+		}
+		catch (e) {
+			if (signal && signal.aborted) {
+				throw e;
+			}
+
+			// Versions of the debug server that predate the handshake don't implement this service
+			this._log(`The version of the BMDebugServer extension on ${this._serverName(node)} could not be determined. Upgrade it to a newer version to only enable the features it supports.`, Logger.LogLevel.Warn);
+		}
+
+		node.serverInfo = info;
+
+		const warning = compatibilityWarning(info);
+		if (warning) {
+			const message = this._nodes.length > 1 ? `${node.name}: ${warning}` : warning;
+			this.sendEvent(new OutputEvent(message + '\n', 'important'));
+			this._log(message, Logger.LogLevel.Warn);
+		}
+	}
+
+	/**
+	 * Updates the capabilities of the debug adapter to the features implemented by the debug server extensions
+	 * installed on all connected nodes.
+	 */
+	private _updateCapabilities(): void {
+		const nodes = this._connectedNodes();
+		this._serverInfo = combinedServerInfo((nodes.length ? nodes : this._nodes).map(n => n.serverInfo));
+		this.sendEvent(new CapabilitiesEvent(serverCapabilities(this._serverInfo)));
+	}
+
+	/**
+	 * Returns `true` if the debug server extension implements the given feature. Otherwise, sends an error response
+	 * to the given request and returns `false`.
+	 * @param response 		The response to send if the feature is not implemented.
+	 * @param feature 		The feature to test.
+	 * @returns 			Whether the feature is implemented.
+	 */
+	private _serverSupports(response: DebugProtocol.Response, feature: ServerFeature): boolean {
+		if (this._serverInfo.features.includes(feature)) {
+			return true;
+		}
+
+		this.sendErrorResponse(response, {id: 0, format: `This operation is not supported by version ${this._serverInfo.version} of the BMDebugServer extension.`, showUser: true});
+		return false;
+	}
+
+	/**
+	 * Opens the debug websocket of the given node and authenticates using the configured credentials.
+	 * @param node 		The node.
+	 * @param signal 	An optional signal that cancels connecting.
+	 * @param timeout 	The number of milliseconds after which connecting is abandoned. Defaults to the request timeout.
+	 * @returns 		A promise that resolves when the websocket is authenticated, and rejects
+	 * 					if the connection or authentication fails.
+	 */
+	private _connect(node: ThingworxNode, signal?: AbortSignal, timeout: number = this.requestTimeout * 1000): Promise<void> {
+		return new Promise((resolve, reject) => {
+			// The websocket uses the same host and context path as the services, with the ws or wss protocol
+			const websocket = this.transport.openSocket(`${node.baseUrl.replace(/^http/, 'ws')}/ThingworxDebugger`);
+			node.websocket = websocket;
+
+			const abort = () => {
+				websocket.close();
+				reject(new Error('Connecting to the thingworx server was cancelled'));
+			};
+			if (signal) {
+				signal.addEventListener('abort', abort);
+			}
+
+			// A connection that is never opened or authenticated, for example because it is half-open, is abandoned
+			const timer: ReturnType<typeof setTimeout> | undefined = timeout ? setTimeout(() => {
+				websocket.close();
+				reject(new Error(`The thingworx server did not accept the debug connection within ${Math.ceil(timeout / 1000)} seconds`));
+			}, timeout) : undefined;
+			const settle = () => {
+				if (timer) {
+					clearTimeout(timer);
+				}
+				if (signal) {
+					signal.removeEventListener('abort', abort);
+				}
+			};
+
+			websocket.onmessage = e => {
+				// Upon recieving a success message, mark the connection as successful
+				try {
+					const socketResponse = JSON.parse(e.data as string);
+					if (!socketResponse.authenticated) {
+						throw new Error('Unable to authenticate with the thingworx server');
+					}
+
+					// Set up a different message listener that will deal with events from the server
+					websocket.onmessage = e => this._didRecieveMessageWithEvent(node, e);
+
+					// Errors are always followed by the websocket closing, which is when reconnecting starts
+					websocket.onerror = e => void 0;
+					websocket.onclose = e => this._connectionDidClose(node, websocket);
+
+					settle();
+					resolve();
+				}
+				catch (e) {
+					// If unexpected data is sent, disconnect and mark the connection as failed
+					settle();
+					reject(e);
+				}
+			};
+
+			websocket.onopen = e => {
+				// Upon opening, authenticate using the app key or the user's credentials
+				websocket.send(JSON.stringify(this.username ? {username: this.username, password: this.password} : {appKey: this.appKey}));
+			};
+
+			websocket.onerror = e => {
+				settle();
+				reject(new Error(e.message || 'Unable to connect to the thingworx server'));
+			};
+			websocket.onclose = e => {
+				settle();
+				reject(new Error('The connection to the thingworx server was closed'));
+			};
+		});
+	}
+
+	/**
+	 * Closes the debug websocket of the given node, if it is open, without attempting to reconnect.
+	 * @param node 		The node.
+	 */
+	private _closeWebsocket(node: ThingworxNode): void {
+		if (node.websocket) {
+			node.websocket.onclose = null;
+			node.websocket.close();
+			node.websocket = undefined;
+		}
+	}
+
+	/**
+	 * Closes the debug websockets of all nodes without attempting to reconnect.
+	 */
+	private _closeWebsockets(): void {
+		this._nodes.forEach(node => this._closeWebsocket(node));
+	}
+
+	/**
+	 * Invoked when the debug websocket of a node closes unexpectedly.
+	 * @param node 			The node.
+	 * @param websocket 	The websocket that was closed.
+	 */
+	private async _connectionDidClose(node: ThingworxNode, websocket: DebugSocket): Promise<void> {
+		if (node.websocket !== websocket || this._isDisconnecting) {
+			return;
+		}
+
+		node.websocket = undefined;
+		this._log(`Lost the connection to ${this._serverName(node)}. Reconnecting...`, Logger.LogLevel.Warn);
+
+		await this._reconnect(node);
+	}
+
+	/**
+	 * Asks the given node to send the messages of the other server logs selected in the debug configuration, and to only
+	 * send messages of the selected minimum level. Servers that can't filter logs send all messages of the services
+	 * being debugged, which are then filtered by the debug adapter.
+	 * @param node 		The node.
+	 * @param signal 	An optional signal that cancels the request.
+	 */
+	private async _subscribeToLogs(node: ThingworxNode, signal?: AbortSignal): Promise<void> {
+		const options = this._logOptions;
+		if (!options.serverLogs.length && options.minimumLevel == 'TRACE') {
+			return;
+		}
+
+		if (!node.serverInfo.features.includes('logSubscription')) {
+			if (options.serverLogs.length) {
+				this._log(`The BMDebugServer extension on ${this._serverName(node)} can't stream the ${options.serverLogs.join(', ')}. Upgrade it to a newer version to include other server logs.`, Logger.LogLevel.Warn);
+			}
+			return;
+		}
+
+		try {
+			await this.invokeService('setLogSubscription', {
+				level: options.minimumLevel,
+				logs: {logs: options.serverLogs},
+				entityPattern: options.entityPattern ? options.entityPattern.source : ''
+			}, node, signal);
+		}
+		catch (e) {
+			if (signal && signal.aborted) {
+				throw e;
+			}
+			this._log(`Unable to subscribe to the logs of ${this._serverName(node)}. ${(e as Error).message}`, Logger.LogLevel.Warn);
+		}
+	}
+
+	/**
+	 * Attempts to reconnect to the given node with an increasing delay between attempts and, upon reconnecting,
+	 * re-sends all breakpoints and exception settings to the server. If unable to reconnect within the configured
+	 * timeout, the node is abandoned and, if no other node remains, the debug session is terminated.
+	 * @param node 		The node.
+	 */
+	private async _reconnect(node: ThingworxNode): Promise<void> {
+		node.reconnecting = true;
+
+		const deadline = Date.now() + this.reconnectTimeout * 1000;
+		let delay = 1000;
+		while (Date.now() < deadline) {
+			await new Promise(resolve => setTimeout(resolve, Math.min(delay, deadline - Date.now())));
+			if (this._isDisconnecting) {
+				node.reconnecting = false;
+				return;
+			}
+
+			try {
+				// Connecting must not wait beyond the deadline, in case the connection is half-open
+				const remaining = Math.max(deadline - Date.now(), 1);
+				await this._connect(node, undefined, this.requestTimeout ? Math.min(this.requestTimeout * 1000, remaining) : remaining);
+				await this.invokeService('connectDebugger', {}, node);
+				await this._negotiateCapabilities(node);
+				await this._subscribeToLogs(node);
+				node.reconnecting = false;
+				this._log(`Reconnected to ${this._serverName(node)}.`, Logger.LogLevel.Log);
+
+				// The node may have been restarted, in which case it assigns new IDs
+				this._invalidateThread();
+				this._updateCapabilities();
+				await this._resyncBreakpoints();
+				return;
+			}
+			catch (e) {
+				this._closeWebsocket(node);
+				delay = Math.min(delay * 2, 30000);
+			}
+		}
+
+		node.reconnecting = false;
+		if (this._isDisconnecting) {
+			return;
+		}
+
+		this._log(`Unable to reconnect to ${this._serverName(node)} within ${this.reconnectTimeout} seconds.`, Logger.LogLevel.Error);
+
+		// The session only ends when there are no other nodes left to debug
+		if (!this._nodes.some(n => n.websocket || n.reconnecting)) {
+			this.sendEvent(new TerminatedEvent());
+		}
+	}
+
+	/**
+	 * Re-sends all breakpoints and exception settings specified by the client to the thingworx server. This is used
+	 * after reconnecting, because the server may have lost them, for example if it was restarted.
+	 */
+	private async _resyncBreakpoints(): Promise<void> {
+		await this._withProgress('Restoring breakpoints', async (report, signal) => {
+			const requests = Array.from(this._breakpointRequests);
+			for (let i = 0; i < requests.length && !signal.aborted; i++) {
+				report(`${i + 1} of ${requests.length}`, i * 100 / requests.length);
+				await this._resyncBreakpoint(requests[i][0], requests[i][1]);
+			}
+		});
+	}
+
+	/**
+	 * Applies one of the breakpoint requests made by the client again after reconnecting.
+	 * @param key 		The key under which the breakpoints were remembered.
+	 * @param apply 	The function that applies the breakpoints.
+	 */
+	private async _resyncBreakpoint(key: string, apply: () => Promise<DebugProtocol.Breakpoint[] | void>): Promise<void> {
+		try {
+			const breakpoints = await apply();
+
+			// The server assigns new IDs, so report the changes using the IDs already known by the client
+			const reportedBreakpoints = this._reportedBreakpoints.get(key) || [];
+			const reportedIDs = new Map<number, number>();
+			(breakpoints || []).forEach((breakpoint, index) => {
+				const reportedBreakpoint = reportedBreakpoints[index];
+				if (reportedBreakpoint && reportedBreakpoint.id !== undefined) {
+					this.sendEvent(new BreakpointEvent('changed', Object.assign({}, breakpoint, {id: reportedBreakpoint.id})));
+					if (breakpoint.id !== undefined) {
+						reportedIDs.set(breakpoint.id, reportedBreakpoint.id);
+					}
+				}
+			});
+
+			// Data breakpoints removed by the server must also be reported using the IDs known by the client
+			if (key == 'data') {
+				for (const id of this._dataBreakpointIDs.keys()) {
+					this._dataBreakpointIDs.set(id, reportedIDs.has(id) ? reportedIDs.get(id)! : id);
+				}
+			}
+		}
+		catch (e) {
+			this._log(`Unable to restore breakpoints after reconnecting.`, Logger.LogLevel.Error);
+		}
+	}
+
+	/**
+	 * Saves the function used to apply a set of breakpoints on the server, so that it can be applied again
+	 * after reconnecting.
+	 * @param key 			A key that identifies the set of breakpoints, e.g. the file that contains them.
+	 * @param apply 		A function that applies the breakpoints on the server.
+	 * @param breakpoints 	The breakpoints that were reported to the client, if any.
+	 */
+	private _rememberBreakpoints(key: string, apply: () => Promise<DebugProtocol.Breakpoint[] | void>, breakpoints: DebugProtocol.Breakpoint[] = []): void {
+		this._breakpointRequests.set(key, apply);
+		this._reportedBreakpoints.set(key, breakpoints);
+	}
+
+	protected async disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments, request?: DebugProtocol.Request): Promise<void> {
+		this._isDisconnecting = true;
+
+		// When running without debugging, the debugger never connected to the debug server
+		if (!this._connectedNodes().length) {
+			this._closeWebsockets();
+			await this._recorder.flush();
+			this.sendResponse(response);
+			return;
+		}
+
+		// Data breakpoints on thing properties would otherwise continue to be evaluated by the server
+		if (this._dataBreakpointIDs.size) {
+			try {
+				await this._invokeOnAllNodes('setDataBreakpoints', {breakpoints: {breakpoints: []}});
+			}
+			catch (e) {
+				this._log(`Unable to remove the data breakpoints. ${(e as Error).message}`, Logger.LogLevel.Warn);
+			}
+			this._dataBreakpointIDs.clear();
+		}
+
+		try {
+			// Inform the debug servers that a debugger disconnected
+			await this._invokeOnAllNodes('disconnectDebugger');
+
+			// The recording is complete, except for the response itself, when the client recieves the response
+			await this._recorder.flush();
+			this.sendResponse(response);
+		}
+		catch (e) {
+			await this._recorder.flush();
+			this.sendErrorResponse(response, {id: 0, format: 'Unable to disconnect', showUser: true});
+		}
+		finally {
+			this._closeWebsockets();
+		}
+	}
+
+	/**
+	 * Invoked when a message is sent by the thingworx server.
+	 * @param node 		The node that sent the message.
+	 * @param event 	The message event.
+	 */
+	private _didRecieveMessageWithEvent(node: ThingworxNode, event: {data: any}): void {
+		let message;
+		try {
+			message = JSON.parse(event.data as string);
+		}
+		catch (e) {
+			// Ignore messages that can't be parsed
+			return;
+		}
+
+		// Threads and breakpoints are identified by IDs assigned by each node
+		if (typeof message.threadID == 'number') {
+			message.threadID = this._clientID(message.threadID, node);
+		}
+		if (typeof message.sequenceID == 'number') {
+			message.sequenceID = this._clientID(message.sequenceID, node);
+		}
+
+		// The state of a thread is only cached while it remains suspended
+		if (['suspended', 'resumed', 'threadStarted', 'threadEnded'].includes(message.name)) {
+			this._invalidateThread(typeof message.threadID == 'number' ? message.threadID : undefined);
+		}
+
+		switch (message.name) {
 			case 'suspended':
-				// Currently only suspended messages are sent
-				this.sendEvent(new StoppedEvent(message.reason, message.threadID, message.exception));
+				this._threadDidSuspend(message);
 				break;
 			case 'resumed':
+				// Threads resumed after evaluating a breakpoint's settings were never reported as stopped
+				if (this._autoResumedThreads.delete(message.threadID)) {
+					break;
+				}
 				this.sendEvent(new ContinuedEvent(message.threadID, false));
 				break;
 			case 'log':
-				this.sendEvent(new LogOutputEvent(message.body + '\n', message.level));
+				this._printLog(node, message);
+				break;
+			case 'dataBreakpointRemoved':
+				// Sent when the variable watched by a data breakpoint goes out of scope
+				if (this._dataBreakpointIDs.has(message.sequenceID)) {
+					const id = this._dataBreakpointIDs.get(message.sequenceID)!;
+					this._dataBreakpointIDs.delete(message.sequenceID);
+					this.sendEvent(new BreakpointEvent('removed', {id, verified: false}));
+				}
+				break;
+			case 'threadStarted':
+				this.sendEvent(new ThreadEvent('started', message.threadID));
+				break;
+			case 'threadEnded':
+				this._autoResumedThreads.delete(message.threadID);
+				this.sendEvent(new ThreadEvent('exited', message.threadID));
 				break;
 			default:
 				// Ignore unsupported messages (e.g. sent from future versions of the extension)
 		}
-	}
+	}
+
+	/**
+	 * Prints a log message sent by the thingworx server to the debug console, if it matches the log options.
+	 * Messages are prefixed with their level and the service that logged them and, if the server reports
+	 * where they were logged, are linked to that location.
+	 * @param node 		The node that sent the message.
+	 * @param message 	The message.
+	 */
+	private _printLog(node: ThingworxNode, message: LogMessage): void {
+		if (!shouldPrintLog(message, this._logOptions)) {
+			return;
+		}
+
+		const level = logLevel(message.level);
+		const origin = [message.entityName, message.serviceName].filter(name => name).join('.');
+		const prefix = (this._nodes.length > 1 ? `[${node.name}] ` : '') +
+			(message.logger ? `[${message.logger}] ` : '') +
+			`[${level}] ` +
+			(origin ? `${origin}: ` : '');
+
+		const event: DebugProtocol.OutputEvent = new OutputEvent(prefix + message.body + '\n', logCategory(level));
+		if (message.source) {
+			event.body.source = this._source(message.source);
+			event.body.line = message.line;
+			event.body.column = message.column;
+		}
+		event.body.data = {
+			level,
+			logger: message.logger,
+			entityName: message.entityName,
+			serviceName: message.serviceName,
+			threadId: message.threadID
+		};
+		this.sendEvent(event);
+	}
+
+	/**
+	 * Prints the given message to the debug console.
+	 * @param body 		The message to print.
+	 * @param level 	The log level of the message.
+	 */
+	private _log(body: string, level: Logger.LogLevel): void {
+		this.sendEvent(new LogOutputEvent(body + '\n', level));
+	}
+
+	/**
+	 * Invoked when the thingworx server reports that a thread was suspended. If the thread was suspended
+	 * by a breakpoint that has a condition, hit condition or log message, or by an exception filter that has
+	 * a condition, these are evaluated first and the thread is resumed if it should not stop.
+	 * @param message 	The suspended message.
+	 */
+	private async _threadDidSuspend(message: any): Promise<void> {
+		if (this._entryBreakpoint && message.reason == 'function breakpoint' && await this._isEntryStop(message)) {
+			// The entry breakpoint is only used once
+			this._entryBreakpoint = undefined;
+			this._entryBreakpointID = undefined;
+			this._setFunctionBreakpoints(this._functionBreakpointArgs).catch(e => void 0);
+
+			this.sendEvent(new StoppedEvent('entry', message.threadID));
+			return;
+		}
+
+		if (message.reason == 'breakpoint' || message.reason == 'function breakpoint' || message.reason == 'exception') {
+			let shouldSuspend = true;
+			try {
+				shouldSuspend = message.reason == 'exception' ?
+					await this._shouldSuspendAtException(message.threadID) :
+					await this._shouldSuspendAtBreakpoint(message.threadID);
+			}
+			catch (e) {
+				// If the breakpoint settings can't be processed, suspend normally
+			}
+
+			if (!shouldSuspend) {
+				this._autoResumedThreads.add(message.threadID);
+				try {
+					const thread = this._route(message.threadID);
+					await this.invokeService('resumeThread', {threadID: thread.id}, thread.node);
+					return;
+				}
+				catch (e) {
+					this._autoResumedThreads.delete(message.threadID);
+				}
+			}
+		}
+
+		this.sendEvent(new StoppedEvent(message.reason, message.threadID, message.exception));
+	}
+
+	/**
+	 * Returns whether a thread was suspended by the entry breakpoint of the launched service, rather than by another
+	 * function breakpoint or in another thread. Servers that don't report which breakpoint was hit are only matched on the thread.
+	 * @param message 	The suspended message.
+	 * @returns 		A promise that resolves with `true` if this is the stop on entry.
+	 */
+	private async _isEntryStop(message: any): Promise<boolean> {
+		const entry = this._entryBreakpoint!;
+		if (typeof message.sequenceID == 'number' && message.sequenceID !== this._entryBreakpointID) {
+			return false;
+		}
+
+		try {
+			const {node, id} = this._route(message.threadID);
+			const threads = await this.invokeService('getThreads', {}, node);
+			const thread = threads.rows.find((row: any) => row.ID == id);
+			return !!thread && thread.entityName == entry.entityName && thread.serviceName == entry.serviceName;
+		}
+		catch (e) {
+			return false;
+		}
+	}
+
+	/**
+	 * Evaluates the settings of the breakpoints at the location where the given thread is suspended and
+	 * prints the messages of any logpoints that were hit.
+	 * @param clientThreadID 	The client ID of the suspended thread.
+	 * @returns 				`true` if the thread should remain suspended, `false` otherwise.
+	 */
+	private async _shouldSuspendAtBreakpoint(clientThreadID: number): Promise<boolean> {
+		// If no breakpoint has any settings, there is no need to look up the suspended location
+		const allBreakpoints = [this._breakpoints, this._functionBreakpoints];
+		const hasSettings = allBreakpoints.some(breakpoints => Object.keys(breakpoints).some(path => breakpoints[path].some(b => b.condition || b.hitCondition || b.logMessage)));
+		if (!hasSettings) {
+			return true;
+		}
+
+		const {node, id: threadID} = this._route(clientThreadID);
+		const frame = (await this._stackTrace(node, threadID, 0, 1)).frames[0];
+		if (!frame) {
+			return true;
+		}
+
+		const breakpoints = (this._breakpoints[frame.source] || []).concat(this._functionBreakpoints[frame.source] || []).filter(b => b.line == frame.line);
+		if (!breakpoints.length) {
+			return true;
+		}
+
+		let shouldSuspend = false;
+		for (const breakpoint of breakpoints) {
+			if (breakpoint.condition) {
+				try {
+					const result = await this.invokeService('evaluate', {expression: `!!(${breakpoint.condition})`, threadID, frameID: frame.id}, node);
+					if (result.rows[0].value !== 'true') {
+						continue;
+					}
+				}
+				catch (e) {
+					// Stop when the condition can't be evaluated, so the user can correct it
+					this._log(`Unable to evaluate breakpoint condition "${breakpoint.condition}".`, Logger.LogLevel.Error);
+					shouldSuspend = true;
+					continue;
+				}
+			}
+
+			breakpoint.hits++;
+			if (breakpoint.hitCondition && !hitConditionMatches(breakpoint.hitCondition, breakpoint.hits)) {
+				continue;
+			}
+
+			if (breakpoint.logMessage) {
+				this._log(await this._interpolateLogMessage(breakpoint.logMessage, node, threadID, frame.id), Logger.LogLevel.Log);
+				continue;
+			}
+
+			shouldSuspend = true;
+		}
+
+		return shouldSuspend;
+	}
+
+	/**
+	 * Replaces each `{expression}` in the given logpoint message with the value of that expression,
+	 * evaluated in the given stack frame.
+	 * @param message 		The logpoint message.
+	 * @param node 			The node on which the thread is running.
+	 * @param threadID 		The ID of the suspended thread, as assigned by the node.
+	 * @param frameID 		The ID of the stack frame in which to evaluate the expressions, as assigned by the node.
+	 * @returns 			The interpolated message.
+	 */
+	private async _interpolateLogMessage(message: string, node: ThingworxNode, threadID: number, frameID: number): Promise<string> {
+		const expressionRegex = /\{([^{}]+)\}/g;
+		let result = '';
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+
+		while (match = expressionRegex.exec(message)) {
+			result += message.substring(lastIndex, match.index);
+			lastIndex = match.index + match[0].length;
+
+			try {
+				const evaluation = await this.invokeService('evaluate', {expression: match[1], threadID, frameID}, node);
+				result += evaluation.rows[0].value;
+			}
+			catch (e) {
+				result += `<unable to evaluate ${match[1]}>`;
+			}
+		}
+
+		return result + message.substring(lastIndex);
+	}
+
+	protected async setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments): Promise<void> {
+		try {
+			const path = this.pathMapper.toRemote(args.source.path!);
+			const apply = () => this._setBreakpoints(path, args);
+
+			response.body = {breakpoints: await apply()};
+			this._rememberBreakpoints(`source:${path}`, apply, response.body.breakpoints);
+
+			this.sendResponse(response);
+		}
+		catch (e) {
+			this.sendErrorResponse(response, {id: 0, format: 'Unable to process request', showUser: true});
+		}
+	}
+
+	/**
+	 * Combines the breakpoints returned by each node for the same request. A breakpoint is verified if any
+	 * node verified it, in which case it is described by the first such node.
+	 * @param results 		The results returned by each node.
+	 * @returns 			The rows describing the breakpoints, with client IDs.
+	 */
+	private _mergeBreakpoints(results: {node: ThingworxNode, result: any}[]): any[] {
+		return results[0].result.rows.map((row: any, index: number) => {
+			const match = results.find(r => r.result.rows[index] && r.result.rows[index].verified) || results[0];
+			const merged = match.result.rows[index];
+			return Object.assign({}, merged, {sequenceID: merged.sequenceID === undefined ? undefined : this._clientID(merged.sequenceID, match.node)});
+		});
+	}
+
+	/**
+	 * Sets the breakpoints for the given file on all thingworx servers.
+	 * @param path 		The path of the file, as used by the thingworx server.
+	 * @param args 		The arguments of the set breakpoints request.
+	 * @returns 		A promise that resolves with the breakpoints that were set.
+	 */
+	private async _setBreakpoints(path: string, args: DebugProtocol.SetBreakpointsArguments): Promise<DebugProtocol.Breakpoint[]> {
+		// Conditions, hit conditions and log messages are handled by the debug adapter, so only the locations are sent to the server
+		// Breakpoints with invalid hit conditions are left out, because the server would suspend at them on every hit
+		const breakpoints = args.breakpoints || [];
+		const invalid = breakpoints.map(b => !!b.hitCondition && hitConditionMatches(b.hitCondition, 0) === undefined);
+		const locations = breakpoints.filter((b, index) => !invalid[index]).map(b => ({line: b.line, column: b.column}));
+
+		const rows = this._mergeBreakpoints(await this._invokeOnAllNodes('setBreakpointsForFile', {path, breakpoints: {breakpoints: locations}}));
+
+		const settings: BreakpointSettings[] = [];
+		let rowIndex = 0;
+		const breakpointsSet = breakpoints.map((breakpoint, index): DebugProtocol.Breakpoint => {
+			if (invalid[index]) {
+				return {
+					verified: false,
+					line: breakpoint.line,
+					column: breakpoint.column,
+					message: `Invalid hit condition "${breakpoint.hitCondition}". Use a number optionally preceded by one of >, >=, <, <=, ==, === or %.`,
+					source: args.source
+				};
+			}
+
+			const row = rows[rowIndex++] || {verified: false, line: breakpoint.line, column: breakpoint.column};
+			if (row.verified) {
+				settings.push({
+					line: row.line,
+					condition: breakpoint.condition,
+					hitCondition: breakpoint.hitCondition,
+					logMessage: breakpoint.logMessage,
+					hits: 0
+				});
+			}
+
+			return {
+				verified: row.verified,
+				column: row.column,
+				endColumn: row.endColumn,
+				endLine: row.endLine,
+				id: row.sequenceID,
+				line: row.line,
+				message: row.message,
+				source: args.source
+			};
+		});
+
+		this._breakpoints[path] = settings;
+		return breakpointsSet;
+	}
+
+	protected async setFunctionBreakPointsRequest(response: DebugProtocol.SetFunctionBreakpointsResponse, args: DebugProtocol.SetFunctionBreakpointsArguments, request?: DebugProtocol.Request): Promise<void> {
+		if (!this._serverSupports(response, 'functionBreakpoints')) {
+			return;
+		}
 
-	protected async launchRequest(response: DebugProtocol.LaunchResponse, args: ILaunchRequestArguments) {
-		this.sendErrorResponse(response, {id: 0, format: 'Launch request not supported', showUser: true});
+		try {
+			const apply = () => this._setFunctionBreakpoints(args);
 
-		// make sure to 'Stop' the buffered logging if 'trace' is not set
-		logger.setup(args.trace ? Logger.LogLevel.Verbose : Logger.LogLevel.Stop, false);
+			response.body = {breakpoints: await apply()};
+			this._rememberBreakpoints('function', apply, response.body.breakpoints);
+
+			this.sendResponse(response);
+		}
+		catch (e) {
+			this.sendErrorResponse(response, {id: 0, format: 'Unable to process request', showUser: true});
+		}
 	}
 
-	protected async setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments): Promise<void> {
-		try {
-			// On windows, typescript reports paths using an uppercase drive letter, but the debugger reports them using
-			// a lowercase letter, which causes the debug server to not match any breakpoint locations
-			// Additionally, the debug entities use unix path delimiters, while the debugger uses windows delimiters
-			let path = args.source.path!;
-			if (process.platform == 'win32') {
-				path = path[0].toUpperCase() + path.substring(1).replace(/\\/g, '/');
+	/**
+	 * Sets the function breakpoints on all thingworx servers.
+	 * @param args 		The arguments of the set function breakpoints request.
+	 * @returns 		A promise that resolves with the breakpoints that were set.
+	 */
+	private async _setFunctionBreakpoints(args: DebugProtocol.SetFunctionBreakpointsArguments): Promise<DebugProtocol.Breakpoint[]> {
+		const targets = args.breakpoints.map(b => parseFunctionBreakpointName(b.name));
+
+		// Only breakpoints with valid names and hit conditions are sent to the server, which verifies them against its debuggable entities
+		// The entry breakpoint of a launched service is sent last, so it doesn't affect the results of the other breakpoints
+		const invalidHitConditions = args.breakpoints.map(b => !!b.hitCondition && hitConditionMatches(b.hitCondition, 0) === undefined);
+		const validTargets = targets.filter((t, index) => t && !invalidHitConditions[index]) as FunctionBreakpointTarget[];
+		const serverTargets = this._entryBreakpoint ? validTargets.concat([this._entryBreakpoint]) : validTargets;
+		const rows = this._mergeBreakpoints(await this._invokeOnAllNodes('setFunctionBreakpoints', {breakpoints: {breakpoints: serverTargets}}));
+		this._entryBreakpointID = this._entryBreakpoint && rows[validTargets.length] ? rows[validTargets.length].sequenceID : undefined;
+
+		const settings: {[path: string]: BreakpointSettings[]} = {};
+		let rowIndex = 0;
+		const breakpointsSet = args.breakpoints.map((breakpoint, index): DebugProtocol.Breakpoint => {
+			const target = targets[index];
+			if (!target) {
+				return {
+					verified: false,
+					message: `Invalid function breakpoint "${breakpoint.name}". Use the Entity.Service or Template::Service syntax.`
+				};
+			}
+			if (invalidHitConditions[index]) {
+				return {
+					verified: false,
+					message: `Invalid hit condition "${breakpoint.hitCondition}". Use a number optionally preceded by one of >, >=, <, <=, ==, === or %.`
+				};
 			}
 
-			const result = await this.invokeService('setBreakpointsForFile', {path, breakpoints: {breakpoints: args.breakpoints || []}});
-			response.body = response.body || { breakpoints: [] };
-			response.body.breakpoints = response.body.breakpoints || [];
+			const row = rows[rowIndex++] || {verified: false};
+			const verified = row.verified;
+			let message = row.message;
 
-			for (const row of result.rows) {
-				response.body.breakpoints.push({
-					verified: row.verified,
-					column: row.column,
-					endColumn: row.endColumn,
-					endLine: row.endLine,
-					id: row.sequenceID,
+			if (!verified) {
+				message = message || `Unknown service "${breakpoint.name}". No debuggable ${target.inherited ? 'thing template or thing shape' : 'entity'} named "${target.entityName}" defines a service named "${target.serviceName}".`;
+			}
+			else if (row.source) {
+				settings[row.source] = settings[row.source] || [];
+				settings[row.source].push({
 					line: row.line,
-					message: row.message,
-					source: args.source
+					condition: breakpoint.condition,
+					hitCondition: breakpoint.hitCondition,
+					hits: 0
 				});
 			}
 
-			this.sendResponse(response);
-		}
-		catch (e) {
-			this.sendErrorResponse(response, {id: 0, format: 'Unable to process request', showUser: true});
-		}
+			const filename = row.source && this.pathMapper.toLocal(row.source);
+			return {
+				verified,
+				id: row.sequenceID,
+				line: row.line,
+				column: row.column,
+				message,
+				source: filename ? new Source(basename(filename), filename) : undefined
+			};
+		});
+
+		this._functionBreakpoints = settings;
+		this._functionBreakpointArgs = args;
+		return breakpointsSet;
 	}
 
 	protected async breakpointLocationsRequest(response: DebugProtocol.BreakpointLocationsResponse, args: DebugProtocol.BreakpointLocationsArguments, request?: DebugProtocol.Request): Promise<void> {
+		if (!this._serverSupports(response, 'breakpointLocations')) {
+			return;
+		}
+
 		if (args.source.path) {
 			try {
-				// On windows, typescript reports paths using an uppercase drive letter, but the debugger reports them using
-				// a lowercase letter, which causes the debug server to not match any breakpoint locations
-				// Additionally, the debug entities use unix path delimiters, while the debugger uses windows delimiters
-				let path = args.source.path!;
-				if (process.platform == 'win32') {
-					path = path[0].toUpperCase() + path.substring(1).replace(/\\/g, '/');
-				}
+				const path = this.pathMapper.toRemote(args.source.path!);
 
 				console.log(`Getting breakpoints at path ${path}`);
 
@@ -435,28 +2155,30 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 	}
 
 	protected async setExceptionBreakPointsRequest(response: DebugProtocol.SetExceptionBreakpointsResponse, args: DebugProtocol.SetExceptionBreakpointsArguments): Promise<void> {
-		let exceptions = false;
-		let caughtExceptions = false;
-		let uncaughtExceptions = false;
-
-		if (args.filterOptions) {
-			for (const filterOption of args.filterOptions) {
-				switch (filterOption.filterId) {
-					case 'exceptions':
-						exceptions = true;
-						break;
-					case 'caughtExceptions':
-						caughtExceptions = true;
-						break;
-					case 'uncaughtExceptions':
-						uncaughtExceptions = true;
-						break;
-				}
+		this._exceptionFilters.clear();
+		for (const filter of args.filters) {
+			this._exceptionFilters.set(filter, '');
+		}
+		for (const filterOption of args.filterOptions || []) {
+			this._exceptionFilters.set(filterOption.filterId, filterOption.condition || '');
+		}
+
+		// Filters that the debug server doesn't implement are not advertised, but may still be sent by clients that ignore capability changes
+		for (const filter of Array.from(this._exceptionFilters.keys())) {
+			if (!this._serverInfo.features.includes(filter as ServerFeature)) {
+				this._exceptionFilters.delete(filter);
 			}
 		}
 
+		const exceptions = this._exceptionFilters.has('exceptions');
+		const caughtExceptions = this._exceptionFilters.has('caughtExceptions');
+		const uncaughtExceptions = this._exceptionFilters.has('uncaughtExceptions');
+
 		try {
-			await this.invokeService('setBreakOnExceptions', {breaks: exceptions, caughtExceptions, uncaughtExceptions});
+			const apply = async () => void await this._invokeOnAllNodes('setBreakOnExceptions', {breaks: exceptions, caughtExceptions, uncaughtExceptions});
+			await apply();
+			this._rememberBreakpoints('exceptions', apply);
+
 			this.sendResponse(response);
 		}
 		catch (e) {
@@ -471,9 +2193,15 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 
 	protected async exceptionInfoRequest(response: DebugProtocol.ExceptionInfoResponse, args: DebugProtocol.ExceptionInfoArguments) {
 		try {
-			const details = await this.invokeService('getExceptionDetails', {threadID: args.threadId});
+			const exception = await this._exception(args.threadId);
+			const details = exceptionDetails(exception);
 
-			response.body = details;
+			response.body = {
+				exceptionId: details.typeName || 'Error',
+				description: details.message,
+				breakMode: exception.breakMode || (exception.caught === false ? 'unhandled' : 'always'),
+				details
+			};
 			this.sendResponse(response);
 		}
 		catch (e) {
@@ -481,15 +2209,102 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 		}
 	}
 
+	/**
+	 * Returns the exception that caused the given thread to suspend, as returned by the `getExceptionDetails` service.
+	 * @param threadID 		The client ID of the suspended thread.
+	 * @returns 			A promise that resolves with the exception.
+	 */
+	private async _exception(threadID: number): Promise<any> {
+		const thread = this._route(threadID);
+		const result = await this.invokeService('getExceptionDetails', {threadID: thread.id}, thread.node);
+		return result && result.rows ? result.rows[0] : result;
+	}
+
+	/**
+	 * Determines whether the exception that suspended the given thread matches the conditions of the
+	 * enabled exception filters.
+	 * @param threadID 		The ID of the suspended thread.
+	 * @returns 			`true` if the thread should remain suspended, `false` otherwise.
+	 */
+	private async _shouldSuspendAtException(threadID: number): Promise<boolean> {
+		// If no filter has a condition, there is no need to look up the exception
+		const conditions = Array.from(this._exceptionFilters.values());
+		if (!conditions.some(c => c)) {
+			return true;
+		}
+
+		const exception = await this._exception(threadID);
+		const details = exceptionDetails(exception);
+
+		// Only the filters that apply to the exception are considered
+		for (const [filter, condition] of this._exceptionFilters) {
+			if ((filter == 'caughtExceptions' && exception.caught === false) || (filter == 'uncaughtExceptions' && exception.caught === true)) {
+				continue;
+			}
+
+			if (!condition || exceptionConditionMatches(condition, details)) {
+				return true;
+			}
+		}
+
+		return false;
+	}
+
+	/**
+	 * Returns a page of the stack trace of the given suspended thread. Servers that don't support paging return
+	 * the entire stack trace, which is then paged by the debug adapter. When the debug server supports it, the
+	 * scopes and variables of the top stack frame are fetched together with the stack trace and cached, because
+	 * they are almost always requested next.
+	 * @param node 			The node on which the thread is running.
+	 * @param threadID 		The ID of the thread, as assigned by the node.
+	 * @param startFrame 	The index of the first frame to return.
+	 * @param levels 		The maximum number of frames to return, or 0 to return all remaining frames.
+	 * @param signal 		An optional signal that cancels the request.
+	 * @returns 			A promise that resolves with the frames and the total number of frames in the stack.
+	 */
+	private async _stackTrace(node: ThingworxNode, threadID: number, startFrame = 0, levels = 0, signal?: AbortSignal): Promise<{frames: any[], totalFrames: number}> {
+		const paging = node.serverInfo.features.includes('paging');
+		const args = paging ? {threadID, startFrame, levels} : {threadID};
+
+		const key = this._cacheKey('getStackTraceInThread', args, node);
+		if (!this._stopCache.has(key) && node.serverInfo.features.includes('batchedStackTrace')) {
+			const clientThreadID = this._clientID(threadID, node);
+			this._cache(key, this.invokeService('getStackTraceWithScopes', args, node, signal).then(result => {
+				const row = result && result.rows ? result.rows[0] : result;
+				const frame = row.frames.rows[0];
+				if (frame && startFrame == 0) {
+					this._cache(this._cacheKey('getScopesInThread', {threadID, frameID: frame.id}, node), Promise.resolve(row.scopes), clientThreadID);
+					for (const reference in row.variables || {}) {
+						this._cache(this._cacheKey('getVariableContents', {reference: parseInt(reference, 10)}, node), Promise.resolve(row.variables[reference]), clientThreadID);
+					}
+				}
+				return row.frames;
+			}), clientThreadID);
+		}
+
+		const result = await this.invokeService('getStackTraceInThread', args, node, signal);
+		const rows: any[] = result.rows;
+		if (paging) {
+			const totalFrames = rows.length ? rows[0].totalFrames : undefined;
+			return {frames: rows, totalFrames: typeof totalFrames == 'number' ? totalFrames : startFrame + rows.length};
+		}
+
+		return {frames: levels ? rows.slice(startFrame, startFrame + levels) : rows.slice(startFrame), totalFrames: rows.length};
+	}
+
 	protected async threadsRequest(response: DebugProtocol.ThreadsResponse): Promise<void> {
 		try {
-			const threads = await this.invokeService('getThreads');
+			const results = await this._invokeOnAllNodes('getThreads', {}, this._signal(response));
 
 			response.body = response.body || {};
 			response.body.threads = response.body.threads || [];
 
-			for (const thread of threads.rows) {
-				response.body.threads.push(new Thread(thread.ID, `Thread ${thread.ID.toFixed()}`));
+			// When attached to several nodes, threads are labeled with the node they are running on
+			for (const {node, result} of results) {
+				for (const thread of result.rows) {
+					const name = this._nodes.length > 1 ? `[${node.name}] ${threadName(thread)}` : threadName(thread);
+					response.body.threads.push(new Thread(this._clientID(thread.ID, node), name));
+				}
 			}
 
 			this.sendResponse(response);
@@ -510,26 +2325,26 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 
 	protected async stackTraceRequest(response: DebugProtocol.StackTraceResponse, args: DebugProtocol.StackTraceArguments): Promise<void> {
 		try {
-			const frames = await this.invokeService('getStackTraceInThread', {threadID: args.threadId});
+			const thread = this._route(args.threadId);
+			const stackTrace = await this._stackTrace(thread.node, thread.id, args.startFrame || 0, args.levels || 0, this._signal(response));
 
 			response.body = response.body || {};
 			response.body.stackFrames = response.body.stackFrames || [];
 
-			for (const row of frames.rows) {
-				const filename = path.normalize(row.source);
-				const filenameComponents = filename.split(path.sep);
+			for (const row of stackTrace.frames) {
+				const frameId = this._clientID(row.id, thread.node);
 				response.body.stackFrames.push(new StackFrame(
-					row.id,
+					frameId,
 					row.name,
-					new Source(filenameComponents[filenameComponents.length - 1], filename),
+					this._source(row.source),
 					row.line,
 					row.column
 				));
 
-				this._scopeThreadMapping[row.id] = args.threadId;
+				this._scopeThreadMapping[frameId] = args.threadId;
 			}
 
-			response.body.totalFrames = frames.rows.length;
+			response.body.totalFrames = stackTrace.totalFrames;
 			this.sendResponse(response);
 		}
 		catch (e) {
@@ -537,16 +2352,36 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 		}
 	}
 
+	/**
+	 * Returns the client source of the given file on the thingworx server.
+	 * @param path 		The path of the file, as reported by the thingworx server.
+	 * @returns 		The source, which can only be opened if the path matches a path mapping.
+	 */
+	private _source(path: string): Source {
+		const filename = this.pathMapper.toLocal(path);
+		if (filename) {
+			return new Source(basename(filename), filename);
+		}
+
+		// Sources that don't match any path mapping can't be opened locally
+		const source = new Source(basename(path), undefined, undefined, 'not mapped to the local workspace');
+		(source as DebugProtocol.Source).presentationHint = 'deemphasize';
+		return source;
+	}
+
 	protected async scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments): Promise<void> {
 
 		try {
-			const scopes = await this.invokeService('getScopesInThread', {threadID: this._scopeThreadMapping[args.frameId], frameID: args.frameId});
+			const frame = this._route(args.frameId);
+			const threadID = this._route(this._scopeThreadMapping[args.frameId]).id;
+			const scopes = await this.invokeService('getScopesInThread', {threadID, frameID: frame.id}, frame.node, this._signal(response));
 
 			response.body = response.body || {};
 			response.body.scopes = response.body.scopes || [];
 
 			for (const scopeRow of scopes.rows) {
-				const scope = new Scope(scopeRow.name, scopeRow.variablesReference, false);
+				const scope = new Scope(scopeRow.name, this._clientID(scopeRow.variablesReference, frame.node), false);
+				this._referenceThreads.set(scope.variablesReference, this._scopeThreadMapping[args.frameId]);
 				response.body.scopes.push(scope);
 			}
 
@@ -559,15 +2394,38 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 
 	protected async variablesRequest(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments, request?: DebugProtocol.Request): Promise<void> {
 		try {
-			const variables = await this.invokeService('getVariableContents', {reference: args.variablesReference, filter: args.filter, start: args.start, count: args.count});
-
 			response.body = response.body || {};
 			response.body.variables = response.body.variables || [];
 
-			for (const variable of variables.rows) {
+			const synthetic = this._syntheticVariables.get(args.variablesReference);
+			if (synthetic) {
+				response.body.variables = synthetic;
+				this.sendResponse(response);
+				return;
+			}
+
+			// The rows of infotables are their indexed variables, while their data shape is their only named variable
+			const threadID = this._referenceThreads.get(args.variablesReference);
+			const dataShape = this._infotableDataShapes.get(args.variablesReference);
+			if (dataShape && args.filter != 'indexed') {
+				const reference = this._nextSyntheticReference++;
+				const {variable, children} = dataShapeVariable(dataShape, reference);
+				this._syntheticVariables.set(reference, children);
+				if (threadID !== undefined) {
+					this._referenceThreads.set(reference, threadID);
+				}
 				response.body.variables.push(variable);
 			}
 
+			if (!dataShape || args.filter != 'named') {
+				const reference = this._route(args.variablesReference);
+				const variables = await this.invokeService('getVariableContents', {reference: reference.id, filter: args.filter, start: args.start, count: args.count}, reference.node, this._signal(response));
+
+				for (const row of variables.rows) {
+					response.body.variables.push(this._clientVariable(row, reference.node, args.format, threadID));
+				}
+			}
+
 			this.sendResponse(response);
 		}
 		catch (e) {
@@ -575,16 +2433,126 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 		}
 	}
 
+	/**
+	 * Converts a variable returned by the thingworx server into the variable sent to the client. Infotables report
+	 * their rows as indexed variables, so that the client requests them in pages, and are given a synthetic
+	 * child describing their data shape.
+	 * @param row 		The variable, as returned by the server.
+	 * @param node 		The node that returned the variable.
+	 * @param format 	The format requested by the client, which takes precedence over the session's formatting options.
+	 * @param threadID 	The client ID of the thread that owns the variable, if any.
+	 * @returns 		The variable.
+	 */
+	private _clientVariable(row: any, node: ThingworxNode, format?: DebugProtocol.ValueFormat, threadID?: number): DebugProtocol.Variable {
+		const options = format && format.hex !== undefined ? Object.assign({}, this._formatOptions, {hex: format.hex}) : this._formatOptions;
+		const variable: ClientVariable = {
+			name: row.name,
+			value: formatValue(row, options),
+			type: row.type,
+			presentationHint: row.presentationHint,
+			evaluateName: row.evaluateName,
+			variablesReference: this._clientID(row.variablesReference, node),
+			indexedVariables: row.indexedVariables,
+			namedVariables: row.namedVariables
+		};
+
+		if (variable.variablesReference && threadID !== undefined) {
+			this._referenceThreads.set(variable.variablesReference, threadID);
+		}
+
+		if (row.dataShape && variable.variablesReference && /^infotable$/i.test(row.type || '')) {
+			this._infotableDataShapes.set(variable.variablesReference, row.dataShape);
+			variable.namedVariables = 1;
+		}
+
+		// Shows the formatting commands that apply to this variable in its context menu
+		const kind = valueKind(row.type);
+		if (kind) {
+			variable.__vscodeVariableMenuContext = kind;
+		}
+
+		return variable;
+	}
+
+	/**
+	 * Responds to the `getVariableData` custom request, which returns the entire contents of a variable as JSON,
+	 * e.g. to display an infotable as a table. For infotables, the response also includes their data shape.
+	 * @param response 		The response.
+	 * @param args 			An object containing the `variablesReference` of the variable.
+	 */
+	private async _variableDataRequest(response: DebugProtocol.Response, args: {variablesReference: number}): Promise<void> {
+		try {
+			if (!args || !args.variablesReference || this._syntheticVariables.has(args.variablesReference)) {
+				throw new Error('Only objects and infotables can be viewed.');
+			}
+
+			const reference = this._route(args.variablesReference);
+			const dataShape = this._infotableDataShapes.get(args.variablesReference);
+			let value: any;
+			if (reference.node.serverInfo.features.includes('variableJSON')) {
+				const result = await this.invokeService('getVariableJSON', {reference: reference.id}, reference.node, this._signal(response));
+				const row = result && result.rows ? result.rows[0] : result;
+				value = typeof row.value == 'string' ? parseVariableValue(row.value) : row.value;
+			}
+			else {
+				// Older servers can only describe the variable one level at a time
+				value = await this._variableData(reference.node, reference.id, 0, {requests: 0}, this._signal(response));
+				if (dataShape) {
+					value = {dataShape, rows: Object.keys(value).map(key => value[key])};
+				}
+			}
+
+			response.body = {value, dataShape: dataShape || (value && value.dataShape)};
+			this.sendResponse(response);
+		}
+		catch (e) {
+			this.sendErrorResponse(response, {id: 0, format: (e as Error).message || 'Unable to retrieve the contents of the variable', showUser: true});
+		}
+	}
+
+	/**
+	 * Builds the contents of a variable by requesting its children, up to `MaxVariableDataDepth` levels deep.
+	 * Fails once `MaxVariableDataRequests` requests have been made, rather than requesting large variables one child at a time.
+	 * @param node 			The node that owns the variable.
+	 * @param reference 	The variables reference assigned by the node.
+	 * @param depth 		The current depth.
+	 * @param count 		An object tracking the number of requests made so far, shared by all levels.
+	 * @param signal 		An optional signal that cancels the requests.
+	 * @returns 			A promise that resolves with an object containing the children of the variable.
+	 */
+	private async _variableData(node: ThingworxNode, reference: number, depth: number, count: {requests: number}, signal?: AbortSignal): Promise<{[name: string]: any}> {
+		if (count.requests++ >= MaxVariableDataRequests) {
+			throw new Error(`This variable is too large to be viewed with the BMDebugServer extension on ${this._serverName(node)}. Upgrade it to a newer version to view large variables.`);
+		}
+
+		const variables = await this.invokeService('getVariableContents', {reference}, node, signal);
+
+		const data: {[name: string]: any} = {};
+		for (const variable of variables.rows) {
+			data[variable.name] = variable.variablesReference && depth < MaxVariableDataDepth ?
+				await this._variableData(node, variable.variablesReference, depth + 1, count, signal) :
+				parseVariableValue(variable.value);
+		}
+		return data;
+	}
+
 	protected async setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments): Promise<void> {
+		if (!this._serverSupports(response, 'setVariable')) {
+			return;
+		}
+
 		try {
-			const result = await this.invokeService('setVariable', {reference: args.variablesReference, name: args.name, value: args.value});
+			const reference = this._route(args.variablesReference);
+			const result = await this.invokeService('setVariable', {reference: reference.id, name: args.name, value: args.value}, reference.node);
+			this._invalidateCache();
 
+			const variable = this._clientVariable(result.rows[0], reference.node, args.format, this._referenceThreads.get(args.variablesReference));
 			response.body = response.body || {};
-			response.body.value = result.rows[0].value;
-			response.body.variablesReference = result.rows[0].variablesReference;
-			response.body.type = result.rows[0].type;
-			response.body.indexedVariables = result.rows[0].indexedVariables;
-			response.body.namedVariables = result.rows[0].namedVariables;
+			response.body.value = variable.value;
+			response.body.variablesReference = variable.variablesReference;
+			response.body.type = variable.type;
+			response.body.indexedVariables = variable.indexedVariables;
+			response.body.namedVariables = variable.namedVariables;
 
 			this.sendResponse(response);
 		}
@@ -595,7 +2563,9 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 
 	protected async pauseRequest(response: DebugProtocol.PauseResponse, args: DebugProtocol.PauseArguments, request?: DebugProtocol.Request): Promise<void> {
 		try {
-			await this.invokeService('suspendThread', {threadID: args.threadId});
+			const thread = this._route(args.threadId);
+			this._invalidateThread(args.threadId);
+			await this.invokeService('suspendThread', {threadID: thread.id}, thread.node);
 			this.sendResponse(response);
 		}
 		catch (e) {
@@ -605,14 +2575,17 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 
 	protected async continueRequest(response: DebugProtocol.ContinueResponse, args: DebugProtocol.ContinueArguments): Promise<void> {
 		try {
+			this._invalidateThread(args.singleThread ? args.threadId : undefined);
 			if (args.singleThread) {
-				await this.invokeService('resumeThread', {threadID: args.threadId});
+				const thread = this._route(args.threadId);
+				await this.invokeService('resumeThread', {threadID: thread.id}, thread.node);
 				response.body = {allThreadsContinued: false};
 			}
 			else {
-				await this.invokeService('resumeAllThreads');
+				await this._invokeOnAllNodes('resumeAllThreads');
 				response.body = {allThreadsContinued: true};
 			}
+			this.sendResponse(response);
 		}
 		catch (e) {
 			this.sendErrorResponse(response, {id: 0, format: 'Unable to process continue request', showUser: true});
@@ -625,12 +2598,9 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 
 	protected async nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): Promise<void> {
 		try {
-			if (args.singleThread) {
-				await this.invokeService('stepOverThread', {threadID: args.threadId});
-			}
-			else {
-				await this.invokeService('stepOverThread', {threadID: args.threadId});
-			}
+			const thread = this._route(args.threadId);
+			this._invalidateThread(args.threadId);
+			await this.invokeService('stepOverThread', {threadID: thread.id}, thread.node);
 			this.sendResponse(response);
 		}
 		catch (e) {
@@ -648,12 +2618,9 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 
 	protected async stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments): Promise<void> {
 		try {
-			if (args.singleThread) {
-				await this.invokeService('stepInThread', {threadID: args.threadId});
-			}
-			else {
-				await this.invokeService('stepInThread', {threadID: args.threadId});
-			}
+			const thread = this._route(args.threadId);
+			this._invalidateThread(args.threadId);
+			await this.invokeService('stepInThread', {threadID: thread.id}, thread.node);
 			this.sendResponse(response);
 		}
 		catch (e) {
@@ -663,12 +2630,9 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 
 	protected async stepOutRequest(response: DebugProtocol.StepOutResponse, args: DebugProtocol.StepOutArguments): Promise<void> {
 		try {
-			if (args.singleThread) {
-				await this.invokeService('stepOutThread', {threadID: args.threadId});
-			}
-			else {
-				await this.invokeService('stepOutThread', {threadID: args.threadId});
-			}
+			const thread = this._route(args.threadId);
+			this._invalidateThread(args.threadId);
+			await this.invokeService('stepOutThread', {threadID: thread.id}, thread.node);
 			this.sendResponse(response);
 		}
 		catch (e) {
@@ -676,29 +2640,50 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 		}
 	}
 
-	protected async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): Promise<void> {
-		let serviceName = 'evaluate';
-		if (!('frameId' in args)) {
+	/**
+	 * Evaluates the given expression on the thingworx server.
+	 * @param expression 		The expression to evaluate.
+	 * @param frameId 			If specified, the ID of the stack frame in which to evaluate the expression.
+	 * 							Otherwise the expression is evaluated in the global context of the first connected node.
+	 * @param signal 			An optional signal that cancels the evaluation.
+	 * @returns 				The row describing the result and the node that evaluated the expression.
+	 */
+	private async _evaluate(expression: string, frameId?: number, signal?: AbortSignal): Promise<{row: any, node: ThingworxNode}> {
+		if (frameId === undefined) {
 			// When frame id is missing, use the evaluateGlobally service
-			serviceName = 'evaluateGlobally';
+			const node = this._defaultNode();
+			const result = await this.invokeService('evaluateGlobally', {expression}, node, signal);
+			return {row: result.rows[0], node};
 		}
 
+		const frame = this._route(frameId);
+		const result = await this.invokeService('evaluate', {
+			expression, 
+			threadID: this._route(this._scopeThreadMapping[frameId]).id, 
+			frameID: frame.id
+		}, frame.node, signal);
+		return {row: result.rows[0], node: frame.node};
+	}
+
+	protected async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): Promise<void> {
 		try {
-			const result = await this.invokeService(serviceName, {
-				expression: args.expression, 
-				threadID: this._scopeThreadMapping[args.frameId as any], 
-				frameID: args.frameId
-			});
-			const row = result.rows[0];
+			const {row, node} = await this._evaluate(args.expression, args.frameId, this._signal(response));
+
+			// Expressions typed in the debug console may modify variables
+			if (args.context == 'repl') {
+				this._invalidateCache();
+			}
+
+			const variable = this._clientVariable(row, node, args.format, args.frameId === undefined ? undefined : this._scopeThreadMapping[args.frameId]);
 
 			response.body = response.body || {};
 
-			response.body.result = row.value;
-			response.body.type = row.type;
-			response.body.variablesReference = row.variablesReference;
-			response.body.presentationHint = row.presentationHint;
-			response.body.indexedVariables = row.indexedVariables;
-			response.body.namedVariables = row.namedVariables;
+			response.body.result = variable.value;
+			response.body.type = variable.type;
+			response.body.variablesReference = variable.variablesReference;
+			response.body.presentationHint = variable.presentationHint;
+			response.body.indexedVariables = variable.indexedVariables;
+			response.body.namedVariables = variable.namedVariables;
 
 			this.sendResponse(response);
 		}
@@ -707,34 +2692,309 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 		}
 	}
 
-	protected setExpressionRequest(response: DebugProtocol.SetExpressionResponse, args: DebugProtocol.SetExpressionArguments): void {
-		this.sendErrorResponse(response, {id: 0, format: "Unsupported operation", showUser: true});
+	protected async setExpressionRequest(response: DebugProtocol.SetExpressionResponse, args: DebugProtocol.SetExpressionArguments): Promise<void> {
+		try {
+			// Only paths can be assigned, which also ensures that evaluating the expression has no side effects
+			if (!isMemberPath(args.expression)) {
+				throw new Error(`${args.expression} can't be assigned a value. Only variables, properties and indexes, such as me.readings.rows[0].value, can be set.`);
+			}
+			const signal = this._signal(response);
+
+			// The current value determines the type that the new value is converted to
+			const current = await this._evaluate(args.expression, args.frameId, signal);
+			const value = valueExpression(args.value, current.row.type);
+
+			// Thing properties may convert the assigned value, so the updated value is read back by the same evaluation
+			const {row, node} = await this._evaluate(`(${args.expression} = ${value}, ${args.expression})`, args.frameId, signal);
+			this._invalidateCache();
+			const threadID = args.frameId === undefined ? undefined : this._scopeThreadMapping[args.frameId];
+			const variable = this._clientVariable(Object.assign({type: current.row.type}, row), node, args.format, threadID);
+
+			response.body = {
+				value: variable.value,
+				type: variable.type,
+				presentationHint: variable.presentationHint,
+				variablesReference: variable.variablesReference,
+				indexedVariables: variable.indexedVariables,
+				namedVariables: variable.namedVariables
+			};
+			this.sendResponse(response);
+
+			// Other variables and watch expressions may depend on the assigned value
+			if (this._useInvalidatedEvent) {
+				this.sendEvent(new InvalidatedEvent(['variables']));
+			}
+		}
+		catch (e) {
+			this.sendErrorResponse(response, {id: 0, format: (e as Error).message || 'Unable to process set expression request', showUser: true});
+		}
 	}
 
-	protected dataBreakpointInfoRequest(response: DebugProtocol.DataBreakpointInfoResponse, args: DebugProtocol.DataBreakpointInfoArguments): void {
-		this.sendErrorResponse(response, {id: 0, format: "Unsupported operation", showUser: true});
+	protected async dataBreakpointInfoRequest(response: DebugProtocol.DataBreakpointInfoResponse, args: DebugProtocol.DataBreakpointInfoArguments): Promise<void> {
+		if (!this._serverInfo.features.includes('dataBreakpoints')) {
+			response.body = {dataId: null, description: `Data breakpoints are not supported by version ${this._serverInfo.version} of the BMDebugServer extension.`};
+			this.sendResponse(response);
+			return;
+		}
+
+		if (args.variablesReference === undefined) {
+			response.body = {dataId: null, description: 'Data breakpoints can only be set on variables.'};
+			this.sendResponse(response);
+			return;
+		}
+
+		try {
+			// The server determines whether the variable is a local, an object member or a thing property
+			const reference = this._route(args.variablesReference);
+			const result = await this.invokeService('getDataBreakpointInfo', {reference: reference.id, name: args.name}, reference.node);
+			const row = result.rows[0];
+
+			if (!row || !row.dataId) {
+				response.body = {dataId: null, description: (row && row.description) || `Data breakpoints are not supported for "${args.name}".`};
+			}
+			else {
+				const isProperty = row.kind == 'property';
+				response.body = {
+					// When attached to several nodes, the data ID also identifies the node that owns the variable
+					dataId: this._nodes.length > 1 ? `${reference.node.index}:${row.dataId}` : row.dataId,
+					description: row.description || (isProperty ? `Break when property ${row.propertyName} of ${row.thingName} changes` : `Break on write to ${args.name}`),
+					accessTypes: ['write'],
+					// Thing properties outlive the current stop, so breakpoints on them can be kept across sessions
+					canPersist: isProperty
+				};
+			}
+
+			this.sendResponse(response);
+		}
+		catch (e) {
+			this.sendErrorResponse(response, {id: 0, format: 'Unable to process data breakpoint info request', showUser: true});
+		}
 	}
 
-	protected setDataBreakpointsRequest(response: DebugProtocol.SetDataBreakpointsResponse, args: DebugProtocol.SetDataBreakpointsArguments): void {
-		this.sendErrorResponse(response, {id: 0, format: "Unsupported operation", showUser: true});
+	protected async setDataBreakpointsRequest(response: DebugProtocol.SetDataBreakpointsResponse, args: DebugProtocol.SetDataBreakpointsArguments): Promise<void> {
+		if (!this._serverSupports(response, 'dataBreakpoints')) {
+			return;
+		}
+
+		try {
+			const apply = () => this._setDataBreakpoints(args);
+
+			response.body = {breakpoints: await apply()};
+			this._rememberBreakpoints('data', apply, response.body.breakpoints);
+
+			this.sendResponse(response);
+		}
+		catch (e) {
+			this.sendErrorResponse(response, {id: 0, format: 'Unable to process set data breakpoints request', showUser: true});
+		}
+	}
+
+	/**
+	 * Sets the data breakpoints on the thingworx servers. Each data breakpoint is set on the node
+	 * that owns the variable it watches.
+	 * @param args 		The arguments of the set data breakpoints request.
+	 * @returns 		A promise that resolves with the breakpoints that were set.
+	 */
+	private async _setDataBreakpoints(args: DebugProtocol.SetDataBreakpointsArguments): Promise<DebugProtocol.Breakpoint[]> {
+		const targets = args.breakpoints.map(b => this._dataBreakpointTarget(b.dataId));
+		const breakpointsSet: DebugProtocol.Breakpoint[] = args.breakpoints.map(b => ({verified: false, message: 'The thingworx server is not connected.'}));
+
+		// Every node recieves its data breakpoints, even when there are none, so that previous ones are removed
+		const dataBreakpointIDs = new Map<number, number>();
+		await Promise.all(this._connectedNodes().map(async node => {
+			const indices = targets.map((target, index) => target.node === node ? index : -1).filter(index => index != -1);
+			const breakpoints = indices.map(index => ({dataId: targets[index].dataId, accessType: args.breakpoints[index].accessType || 'write'}));
+			const result = await this.invokeService('setDataBreakpoints', {breakpoints: {breakpoints}}, node);
+
+			indices.forEach((index, rowIndex) => {
+				const row = result.rows[rowIndex] || {verified: false};
+				const id = row.sequenceID === undefined ? undefined : this._clientID(row.sequenceID, node);
+				if (row.verified && id !== undefined) {
+					dataBreakpointIDs.set(id, id);
+				}
+
+				breakpointsSet[index] = {
+					verified: row.verified,
+					id,
+					message: row.verified ? row.message : (row.message || 'The variable is no longer in scope.')
+				};
+			});
+		}));
+
+		this._dataBreakpointIDs = dataBreakpointIDs;
+		return breakpointsSet;
 	}
 
-	protected completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments): void {
+	/**
+	 * Returns the node that owns the variable watched by a data breakpoint, and the data ID assigned by that node.
+	 * @param dataId 		The data ID sent by the client.
+	 * @returns 			The node and its data ID.
+	 */
+	private _dataBreakpointTarget(dataId: string): {node: ThingworxNode, dataId: string} {
+		const match = /^(\d+):(.*)$/.exec(dataId);
+		if (this._nodes.length == 1 || !match || !this._nodes[parseInt(match[1], 10)]) {
+			return {node: this._defaultNode(), dataId};
+		}
+
+		return {node: this._nodes[parseInt(match[1], 10)], dataId: match[2]};
+	}
+
+	protected async completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments): Promise<void> {
 
 		response.body = {
 			targets: [
 			]
 		};
+
+		try {
+			// The debug adapter uses zero-based lines and columns
+			const line = args.text.split('\n')[args.line === undefined ? 0 : this.convertClientLineToDebugger(args.line)] || '';
+			const context = parseCompletionContext(line.substring(0, this.convertClientColumnToDebugger(args.column)));
+
+			const targets = context.kind == 'identifier' ?
+				await this._identifierCompletions(args.frameId) :
+				await this._memberCompletions(context.objectExpression!, context.prefix, args.frameId);
+
+			// Bracket completions replace the opening quote, if one was typed, and include the closing quote and bracket
+			const quote = context.quote || '"';
+			const replacedLength = context.prefix.length + (context.quote || '').length;
+			const start = this.convertDebuggerColumnToClient(context.start - (context.quote || '').length);
+
+			const prefix = context.prefix.toLowerCase();
+			for (const target of targets) {
+				if (target.label.toLowerCase().startsWith(prefix)) {
+					target.start = start;
+					target.length = replacedLength;
+					if (context.kind == 'index') {
+						target.text = `${quote}${target.label}${quote}]`;
+					}
+					response.body.targets.push(target);
+				}
+			}
+		}
+		catch (e) {
+			// Completions are best-effort; if the server can't provide them, return whatever was found
+		}
+
 		this.sendResponse(response);
 	}
 
+	/**
+	 * Returns the completions for a name typed in the debug console, which include the variables in the
+	 * scopes of the given stack frame and the thingworx globals.
+	 * @param frameId 		If specified, the ID of the stack frame whose variables should be returned.
+	 * @returns 			A promise that resolves with the completions.
+	 */
+	private async _identifierCompletions(frameId?: number): Promise<DebugProtocol.CompletionItem[]> {
+		const targets: DebugProtocol.CompletionItem[] = [];
+		const names = new Set<string>();
+
+		if (frameId !== undefined) {
+			const frame = this._route(frameId);
+			const scopes = await this.invokeService('getScopesInThread', {threadID: this._route(this._scopeThreadMapping[frameId]).id, frameID: frame.id}, frame.node);
+			for (const scope of scopes.rows) {
+				const variables = await this.invokeService('getVariableContents', {reference: scope.variablesReference}, frame.node);
+				for (const variable of variables.rows) {
+					if (!names.has(variable.name)) {
+						names.add(variable.name);
+						targets.push({label: variable.name, type: 'variable'});
+					}
+				}
+			}
+		}
+
+		for (const name of ThingworxGlobals) {
+			if (!names.has(name)) {
+				targets.push({label: name, type: 'module'});
+			}
+		}
+
+		return targets;
+	}
+
+	/**
+	 * Returns the completions for the members of the given object, which include its properties, its services
+	 * and, for infotables, its fields. For the thingworx collections such as `Things`, the completions are
+	 * the names of the entities in that collection.
+	 * @param objectExpression 		The expression whose members should be returned.
+	 * @param prefix 				The part of the member name that has already been typed.
+	 * @param frameId 				If specified, the ID of the stack frame in which to evaluate the expression.
+	 * @returns 					A promise that resolves with the completions.
+	 */
+	private async _memberCompletions(objectExpression: string, prefix: string, frameId?: number): Promise<DebugProtocol.CompletionItem[]> {
+		const targets: DebugProtocol.CompletionItem[] = [];
+
+		// Completions are requested on every keystroke, so expressions that may change the state of the server are never evaluated
+		if (hasSideEffects(objectExpression)) {
+			return targets;
+		}
+
+		const entityType = ThingworxCollections[objectExpression];
+		if (entityType) {
+			const entities = await this._evaluatedJSON(entityNamesExpression(entityType, prefix), frameId);
+			for (const name of entities) {
+				targets.push({label: name, type: 'reference'});
+			}
+			return targets;
+		}
+
+		const names = new Set<string>();
+		const members = await this._evaluatedJSON(memberNamesExpression(objectExpression), frameId);
+		for (const property of members.properties) {
+			if (!names.has(property)) {
+				names.add(property);
+				targets.push({label: property, type: 'property'});
+			}
+		}
+		for (const field of members.fields) {
+			if (!names.has(field)) {
+				names.add(field);
+				targets.push({label: field, type: 'field'});
+			}
+		}
+		for (const service of members.services) {
+			if (!names.has(service)) {
+				names.add(service);
+				targets.push({label: service, type: 'method'});
+			}
+		}
+
+		return targets;
+	}
+
+	/**
+	 * Evaluates an expression that returns a JSON string and parses its result. The results are cached until the
+	 * threads are resumed, so that completing the same expression while typing evaluates it only once.
+	 * @param expression 		The expression.
+	 * @param frameId 			If specified, the ID of the stack frame in which to evaluate the expression.
+	 * @returns 				A promise that resolves with the parsed result.
+	 */
+	private _evaluatedJSON(expression: string, frameId?: number): Promise<any> {
+		const key = `completions/${frameId}/${expression}`;
+		const entry = this._stopCache.get(key);
+		if (entry) {
+			return entry.result;
+		}
+
+		const result = this._evaluate(expression, frameId).then(({row}) => parseEvaluatedJSON(row.value));
+		this._cache(key, result, frameId === undefined ? undefined : this._scopeThreadMapping[frameId]);
+		return result;
+	}
+
 	protected cancelRequest(response: DebugProtocol.CancelResponse, args: DebugProtocol.CancelArguments) {
-		if (args.requestId) {
-			this._cancellationTokens.set(args.requestId, true);
+		if (args.requestId !== undefined) {
+			const controller = this._cancellableRequests.get(args.requestId);
+			if (controller) {
+				controller.abort();
+			}
 		}
 		if (args.progressId) {
-			
+			const controller = this._progressOperations.get(args.progressId);
+			if (controller) {
+				controller.abort();
+			}
 		}
+		this.sendResponse(response);
 	}
 
 	protected disassembleRequest(response: DebugProtocol.DisassembleResponse, args: DebugProtocol.DisassembleArguments) {
@@ -746,6 +3006,35 @@ export class ThingworxDebugSession extends LoggingDebugSession {
 	}
 
 	protected customRequest(command: string, response: DebugProtocol.Response, args: any) {
+		if (command == 'runService') {
+			// The service may suspend at a breakpoint, so the request completes without waiting for its result
+			this.sendResponse(response);
+			this._runService(args);
+			return;
+		}
+
+		if (command == 'getVariableData') {
+			this._variableDataRequest(response, args);
+			return;
+		}
+
+		if (command == 'toggleFormatting') {
+			// Toggles hexadecimal integers unless another formatting option is specified
+			const option: FormatOption = (args && args.option) || 'hex';
+			if (!(option in this._formatOptions)) {
+				this.sendErrorResponse(response, {id: 0, format: `Unknown formatting option "${option}"`, showUser: true});
+				return;
+			}
+
+			this._formatOptions[option] = !this._formatOptions[option];
+			if (this._useInvalidatedEvent) {
+				this.sendEvent(new InvalidatedEvent(['variables']));
+			}
+			response.body = {options: this._formatOptions};
+			this.sendResponse(response);
+			return;
+		}
+
 		this.sendErrorResponse(response, {id: 0, format: "Unsupported operation", showUser: true});
 	}
 }
@@ -0,0 +1,184 @@
+/*
+ * transport.ts describes how the debug adapter communicates with the thingworx server. Because the debug adapter can
+ * run both in node.js and in the browser, the HTTP requests and the debug websocket are implemented separately for
+ * each environment in nodeTransport.ts and browserTransport.ts.
+ */
+
+/**
+ * The subset of the websocket API used by the debug adapter, which is implemented both by the `ws` package
+ * and by the browser's native `WebSocket`.
+ */
+export interface DebugSocket {
+
+	/**
+	 * Invoked when the connection is established.
+	 */
+	onopen: ((event: any) => void) | null;
+
+	/**
+	 * Invoked when a message is recieved. The message is contained in the event's `data` property.
+	 */
+	onmessage: ((event: any) => void) | null;
+
+	/**
+	 * Invoked when an error occurs. Depending on the environment, the event may have a `message` property.
+	 */
+	onerror: ((event: any) => void) | null;
+
+	/**
+	 * Invoked when the connection is closed.
+	 */
+	onclose: ((event: any) => void) | null;
+
+	/**
+	 * Sends the given message to the server.
+	 * @param data 		The message to send.
+	 */
+	send(data: string): void;
+
+	/**
+	 * Closes the connection.
+	 */
+	close(): void;
+}
+
+/**
+ * The response to an HTTP request made through a transport.
+ */
+export interface TransportResponse {
+
+	/**
+	 * The HTTP status code.
+	 */
+	statusCode: number;
+
+	/**
+	 * The response body.
+	 */
+	body: string;
+
+	/**
+	 * The cookies set by the server. This is not available in the browser, which manages cookies itself.
+	 */
+	cookies?: string[];
+}
+
+/**
+ * The connection options that can be applied to a transport.
+ */
+export interface TransportOptions {
+
+	/**
+	 * The path to a PEM file containing the certificate authorities to trust, in addition to the default ones.
+	 */
+	ca?: string;
+
+	/**
+	 * When set to `false`, the certificate of the thingworx server is not verified. This should only be used
+	 * during development.
+	 */
+	strictSSL?: boolean;
+
+	/**
+	 * The path to a PEM file containing the client certificate to present to the server.
+	 */
+	clientCertificate?: string;
+
+	/**
+	 * The path to a PEM file containing the private key of the client certificate.
+	 */
+	clientKey?: string;
+
+	/**
+	 * The path to a PFX or PKCS12 file containing the client certificate and its private key.
+	 */
+	clientPfx?: string;
+
+	/**
+	 * The passphrase of the client private key or PFX file.
+	 */
+	clientPassphrase?: string;
+
+	/**
+	 * The URL of an HTTP or HTTPS proxy through which to connect to the server.
+	 */
+	proxy?: string;
+}
+
+/**
+ * A transport is used by the debug adapter to make HTTP requests and open websockets. Each debug session
+ * uses its own transport.
+ */
+export interface Transport {
+
+	/**
+	 * The platform on which the debug adapter is running, which determines how local paths are formatted.
+	 * This is `process.platform` in node.js and `browser` in the browser.
+	 */
+	readonly platform: string;
+
+	/**
+	 * Applies the given connection options to all subsequent requests and websockets.
+	 * @param options 		The connection options.
+	 */
+	configure(options: TransportOptions): void;
+
+	/**
+	 * Sends a POST request to the given URL.
+	 * @param url 			The URL to which the request should be sent.
+	 * @param headers 		The request headers.
+	 * @param body 			The request body.
+	 * @param signal 		An optional signal that aborts the request.
+	 * @returns 			A promise that resolves with the response, or rejects if the request could not be made
+	 * 						or was aborted.
+	 */
+	post(url: string, headers: {[name: string]: string}, body: string, signal?: AbortSignal): Promise<TransportResponse>;
+
+	/**
+	 * Opens a websocket connection to the given URL.
+	 * @param url 			The websocket URL.
+	 * @returns 			The websocket.
+	 */
+	openSocket(url: string): DebugSocket;
+
+	/**
+	 * Reads a local file, such as a session recording. This is not available in the browser.
+	 * @param path 			The path of the file.
+	 * @returns 			A promise that resolves with the contents of the file.
+	 */
+	readFile?(path: string): Promise<string>;
+
+	/**
+	 * Writes to a local file, such as a session recording. This is not available in the browser.
+	 * @param path 			The path of the file.
+	 * @param data 			The text to write.
+	 * @param append 		Whether to append the text instead of replacing the contents of the file.
+	 * @returns 			A promise that resolves when the text has been written.
+	 */
+	writeFile?(path: string, data: string, append?: boolean): Promise<void>;
+}
+
+/**
+ * The connection details of a thingworx server, as specified in a debug configuration.
+ */
+export interface ServerDetails {
+	thingworxUrl?: string;
+	thingworxDomain?: string;
+	thingworxPort?: number;
+	useSSL?: boolean;
+}
+
+/**
+ * Returns the base URL of the thingworx server, including its context path, from the connection details in a debug
+ * configuration. The URL can either be specified directly using `thingworxUrl` or be made up of `thingworxDomain`,
+ * `thingworxPort` and `useSSL`, in which case the default `/Thingworx` context path is used.
+ * @param config 		An object containing the connection details.
+ * @returns 			The base URL, without a trailing path delimiter.
+ */
+export function serverUrl(config: ServerDetails): string {
+	if (config.thingworxUrl) {
+		return config.thingworxUrl.replace(/\/+$/, '');
+	}
+
+	return `${config.useSSL ? 'https' : 'http'}://${config.thingworxDomain}:${config.thingworxPort! | 0}/Thingworx`;
+}
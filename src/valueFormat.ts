@@ -0,0 +1,235 @@
+/*
+ * valueFormat.ts formats the values returned by the thingworx server for display in the variables view,
+ * in hovers and in the debug console, according to the formatting options chosen by the user. It also converts
+ * the values entered by the user when editing watch expressions into javascript values of the expected type.
+ */
+
+/**
+ * The options that control how values are displayed.
+ */
+export interface FormatOptions {
+
+	/**
+	 * Display integers in hexadecimal.
+	 */
+	hex: boolean;
+
+	/**
+	 * Display dates in the local time zone instead of in the ISO 8601 format.
+	 */
+	localTime: boolean;
+
+	/**
+	 * Display JSON values and objects indented over multiple lines.
+	 */
+	prettyJSON: boolean;
+
+	/**
+	 * Display infotables as their number of rows and fields, e.g. `3 rows × 2 fields`.
+	 */
+	infotableSummary: boolean;
+}
+
+/**
+ * The name of a formatting option.
+ */
+export type FormatOption = keyof FormatOptions;
+
+/**
+ * The formatting options used when a debug session starts.
+ */
+export const DefaultFormatOptions: FormatOptions = {hex: false, localTime: false, prettyJSON: false, infotableSummary: true};
+
+/**
+ * Describes a value returned by the thingworx server.
+ */
+export interface ServerValue {
+
+	/**
+	 * The value, as rendered by the server.
+	 */
+	value: string;
+
+	/**
+	 * The type of the value, which is either a thingworx base type such as `DATETIME` or a javascript type such as `number`.
+	 */
+	type?: string;
+
+	/**
+	 * For infotables, the number of rows.
+	 */
+	indexedVariables?: number;
+
+	/**
+	 * For infotables, the data shape.
+	 */
+	dataShape?: {fieldDefinitions?: {[name: string]: any}};
+}
+
+/**
+ * The kinds of values that can be formatted, which are also used as the context of their menu in the variables view.
+ */
+export type ValueKind = 'number' | 'datetime' | 'json' | 'infotable';
+
+/**
+ * Returns the kind of the values of the given type.
+ * @param type 		The type.
+ * @returns 		The kind, or `undefined` if values of this type are displayed as returned by the server.
+ */
+export function valueKind(type?: string): ValueKind | undefined {
+	if (/^(number|integer|long)$/i.test(type || '')) {
+		return 'number';
+	}
+	if (/^(datetime|date)$/i.test(type || '')) {
+		return 'datetime';
+	}
+	if (/^(json|twjson|object)$/i.test(type || '')) {
+		return 'json';
+	}
+	if (/^infotable$/i.test(type || '')) {
+		return 'infotable';
+	}
+}
+
+/**
+ * Formats a value returned by the thingworx server. Values that can't be interpreted are returned unchanged.
+ * @param value 		The value.
+ * @param options 		The formatting options.
+ * @returns 			The formatted value.
+ */
+export function formatValue(value: ServerValue, options: FormatOptions): string {
+	switch (valueKind(value.type)) {
+		case 'number':
+			if (options.hex && /^-?\d+$/.test(value.value)) {
+				const number = parseInt(value.value, 10);
+				return (number < 0 ? '-0x' : '0x') + Math.abs(number).toString(16);
+			}
+			break;
+		case 'datetime':
+			return formatDate(value.value, options.localTime);
+		case 'json':
+			return formatJSON(value.value, options.prettyJSON);
+		case 'infotable':
+			if (options.infotableSummary && value.indexedVariables !== undefined) {
+				const fields = Object.keys((value.dataShape && value.dataShape.fieldDefinitions) || {}).length;
+				return `${value.indexedVariables} ${value.indexedVariables == 1 ? 'row' : 'rows'} × ${fields} ${fields == 1 ? 'field' : 'fields'}`;
+			}
+			break;
+	}
+
+	return value.value;
+}
+
+/**
+ * Parses a number entered by the user, which may be in hexadecimal like the integers displayed in hex.
+ * @param text 		The number.
+ * @returns 		The number, or `NaN` if the text isn't a number.
+ */
+function parseNumber(text: string): number {
+	const hex = /^(-?)0x([\da-f]+)$/i.exec(text);
+	if (hex) {
+		return (hex[1] ? -1 : 1) * parseInt(hex[2], 16);
+	}
+
+	return text.trim() ? Number(text) : NaN;
+}
+
+/**
+ * Formats a date, which the server returns either as a number of milliseconds or as a date string, optionally quoted.
+ * @param value 		The date.
+ * @param localTime 	Whether to use the local time zone instead of the ISO 8601 format.
+ * @returns 			The formatted date.
+ */
+function formatDate(value: string, localTime: boolean): string {
+	const unquoted = value.replace(/^"(.*)"$/, '$1');
+	const date = new Date(/^-?\d+$/.test(unquoted) ? parseInt(unquoted, 10) : unquoted);
+	if (!unquoted || isNaN(date.getTime())) {
+		return value;
+	}
+
+	return localTime ? date.toLocaleString() : date.toISOString();
+}
+
+/**
+ * Formats a JSON value, either on a single line or indented over multiple lines.
+ * @param value 		The JSON value.
+ * @param pretty 		Whether to indent the value.
+ * @returns 			The formatted value.
+ */
+function formatJSON(value: string, pretty: boolean): string {
+	try {
+		const json = JSON.parse(value);
+		if (json && typeof json == 'object') {
+			return pretty ? JSON.stringify(json, null, 2) : JSON.stringify(json);
+		}
+	}
+	catch (e) {
+		// Objects that aren't rendered as JSON, such as java objects, are displayed as they are
+	}
+
+	return value;
+}
+
+/**
+ * Converts a value entered by the user into the source of a javascript expression whose value has the given type,
+ * so that it can be assigned to a variable or property. Values of other types, such as infotables, are treated as expressions.
+ * @param value 		The value entered by the user, which may be formatted like the values displayed by the debugger.
+ * @param type 			The type of the variable or property that is assigned.
+ * @returns 			The javascript source of the value.
+ */
+export function valueExpression(value: string, type?: string): string {
+	const text = value.trim();
+	const unquoted = text.replace(/^"(.*)"$/, '$1');
+
+	switch (valueKind(type)) {
+		case 'number': {
+			const number = parseNumber(unquoted);
+			if (isNaN(number) || (/^(integer|long)$/i.test(type || '') && !Number.isInteger(number))) {
+				throw new Error(`${value} is not a valid ${type}.`);
+			}
+			return String(number);
+		}
+		case 'datetime': {
+			const date = new Date(/^-?\d+$/.test(unquoted) ? parseInt(unquoted, 10) : unquoted);
+			if (!unquoted || isNaN(date.getTime())) {
+				throw new Error(`${value} is not a valid ${type}.`);
+			}
+			return `new Date(${date.getTime()})`;
+		}
+		case 'json':
+			// Javascript objects may be assigned any expression
+			if (/^object$/i.test(type || '')) {
+				return text;
+			}
+			try {
+				JSON.parse(text);
+			}
+			catch (e) {
+				throw new Error(`${value} is not a valid ${type}.`);
+			}
+			// Parenthesized so that objects aren't parsed as blocks
+			return `(${text})`;
+	}
+
+	if (/^boolean$/i.test(type || '')) {
+		if (!/^(true|false)$/i.test(unquoted)) {
+			throw new Error(`${value} is not a valid ${type}.`);
+		}
+		return unquoted.toLowerCase();
+	}
+
+	if (/^(string|text|html|xml|hyperlink|imagelink|thingname|password|guid)$/i.test(type || '')) {
+		// Quoted strings are entered as they are displayed, other values are the contents of the string
+		if (/^"(.*)"$/.test(text)) {
+			try {
+				return JSON.stringify(JSON.parse(text));
+			}
+			catch (e) {
+				// Not a valid string literal, so the quotes are part of the string
+			}
+		}
+		return JSON.stringify(value);
+	}
+
+	return text;
+}
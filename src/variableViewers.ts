@@ -0,0 +1,392 @@
+/*
+ * variableViewers.ts contains the commands that open infotable and JSON variables in a viewer: "View as Table" displays
+ * an infotable in a sortable grid that can be exported as CSV or JSON, and "Open as JSON" displays any object
+ * in a read-only document. The data is retrieved from the debug adapter using the `getVariableData` custom request.
+ */
+
+'use strict';
+
+import * as vscode from 'vscode';
+
+/**
+ * The URI scheme of the read-only documents opened by the "Open as JSON" command.
+ */
+const VariableScheme = 'thingworx-variable';
+
+/**
+ * Describes the variable that a command was invoked on, as passed by the variables and watch views.
+ */
+interface VariableArgument {
+
+	/**
+	 * The ID of the debug session that owns the variable.
+	 */
+	sessionId?: string;
+
+	/**
+	 * The variable, when invoked from the variables view or on the children of watch expressions.
+	 */
+	variable?: {name?: string, evaluateName?: string, variablesReference?: number};
+
+	/**
+	 * The expression, when invoked on a watch expression.
+	 */
+	expression?: string;
+
+	/**
+	 * The variables reference, when invoked on a watch expression.
+	 */
+	variablesReference?: number;
+}
+
+/**
+ * The contents of a variable, as returned by the `getVariableData` custom request.
+ */
+interface VariableData {
+
+	/**
+	 * The value of the variable. For infotables, this is an object containing the `dataShape` and `rows`.
+	 */
+	value: any;
+
+	/**
+	 * For infotables, the data shape.
+	 */
+	dataShape?: {fieldDefinitions?: {[name: string]: {name: string, baseType?: string, ordinal?: number}}};
+}
+
+/**
+ * Provides the contents of the documents opened by the "Open as JSON" command. The contents are retrieved
+ * when the command is invoked, because the variables they come from are only valid while the thread is suspended.
+ */
+class VariableDocumentProvider implements vscode.TextDocumentContentProvider {
+
+	/**
+	 * The contents of the open documents, by URI.
+	 */
+	private _documents = new Map<string, string>();
+
+	private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+
+	readonly onDidChange = this._onDidChange.event;
+
+	/**
+	 * Sets the contents of the document with the given URI.
+	 * @param uri 			The URI of the document.
+	 * @param contents 		The contents.
+	 */
+	setContents(uri: vscode.Uri, contents: string): void {
+		this._documents.set(uri.toString(), contents);
+		this._onDidChange.fire(uri);
+	}
+
+	/**
+	 * Removes the contents of a document that was closed.
+	 * @param uri 		The URI of the document.
+	 */
+	remove(uri: vscode.Uri): void {
+		this._documents.delete(uri.toString());
+	}
+
+	provideTextDocumentContent(uri: vscode.Uri): string {
+		return this._documents.get(uri.toString()) || '';
+	}
+}
+
+/**
+ * Returns the name and variables reference of the variable that a command was invoked on.
+ * @param argument 		The argument passed to the command.
+ * @returns 			The variable, or `undefined` if the argument doesn't describe a variable with contents.
+ */
+function variableFromArgument(argument: VariableArgument | undefined): {name: string, variablesReference: number} | undefined {
+	if (!argument) {
+		return;
+	}
+
+	const variable = argument.variable || {};
+	const variablesReference = variable.variablesReference || argument.variablesReference;
+	if (!variablesReference) {
+		return;
+	}
+
+	return {name: variable.name || variable.evaluateName || argument.expression || 'value', variablesReference};
+}
+
+/**
+ * Retrieves the contents of the variable that a command was invoked on from the debug adapter.
+ * @param argument 		The argument passed to the command.
+ * @returns 			A promise that resolves with the variable and its contents, or `undefined` if they can't be retrieved.
+ */
+async function variableData(argument: VariableArgument | undefined): Promise<{name: string, variablesReference: number, data: VariableData} | undefined> {
+	const variable = variableFromArgument(argument);
+	const session = vscode.debug.activeDebugSession;
+	if (!variable || !session || session.type != 'thingworx-vscode' || (argument!.sessionId && argument!.sessionId != session.id)) {
+		vscode.window.showInformationMessage('Select an infotable or object variable of a suspended Thingworx debug session.');
+		return;
+	}
+
+	try {
+		const data: VariableData = await session.customRequest('getVariableData', {variablesReference: variable.variablesReference});
+		return {name: variable.name, variablesReference: variable.variablesReference, data};
+	}
+	catch (e) {
+		vscode.window.showErrorMessage(`Unable to retrieve the contents of ${variable.name}: ${(e as Error).message}`);
+	}
+}
+
+/**
+ * Returns the columns of an infotable, which are the fields of its data shape ordered by their ordinal. If the
+ * data shape doesn't define any fields, the columns are the properties of its rows.
+ * @param data 		The contents of the infotable.
+ * @param rows 		The rows of the infotable.
+ * @returns 		The names of the columns.
+ */
+function tableColumns(data: VariableData, rows: any[]): string[] {
+	const fieldDefinitions = (data.dataShape && data.dataShape.fieldDefinitions) || {};
+	const fields = Object.keys(fieldDefinitions).map(key => fieldDefinitions[key]);
+	if (fields.length) {
+		return fields.sort((a, b) => (a.ordinal || 0) - (b.ordinal || 0)).map(field => field.name);
+	}
+
+	const columns: string[] = [];
+	for (const row of rows) {
+		for (const key of Object.keys(row || {})) {
+			if (!columns.includes(key)) {
+				columns.push(key);
+			}
+		}
+	}
+	return columns;
+}
+
+/**
+ * Returns the rows of an infotable.
+ * @param data 		The contents of the infotable.
+ * @returns 		The rows.
+ */
+function tableRows(data: VariableData): any[] {
+	const value = data.value;
+	if (Array.isArray(value)) {
+		return value;
+	}
+	return value && Array.isArray(value.rows) ? value.rows : [];
+}
+
+/**
+ * Returns the text displayed in a table cell or exported for the given value. Objects, such as nested infotables, are displayed as JSON.
+ * @param value 	The value.
+ * @returns 		The text.
+ */
+function cellText(value: any): string {
+	if (value === undefined || value === null) {
+		return '';
+	}
+	return typeof value == 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Converts the rows of an infotable into CSV, with a header containing the column names.
+ * @param columns 		The names of the columns.
+ * @param rows 			The rows.
+ * @returns 			The CSV text.
+ */
+function toCSV(columns: string[], rows: any[]): string {
+	const escape = (text: string) => /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+	const lines = [columns.map(escape).join(',')];
+	for (const row of rows) {
+		lines.push(columns.map(column => escape(cellText(row && row[column]))).join(','));
+	}
+	return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Returns a random nonce used to allow the script of a webview to run.
+ * @returns 	The nonce.
+ */
+function nonce(): string {
+	const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+	let result = '';
+	for (let i = 0; i < 32; i++) {
+		result += characters.charAt(Math.floor(Math.random() * characters.length));
+	}
+	return result;
+}
+
+/**
+ * Returns the HTML of the webview that displays an infotable. The table is rendered by a script in the webview,
+ * which sorts the rows when a column header is clicked and asks the extension to export the data.
+ * @param webview 		The webview.
+ * @param columns 		The names of the columns.
+ * @param rows 			The rows, with each cell already converted to text.
+ * @returns 			The HTML.
+ */
+function tableHTML(webview: vscode.Webview, columns: string[], rows: string[][]): string {
+	const scriptNonce = nonce();
+	// Escaping "<" prevents the data from closing the script element
+	const data = JSON.stringify({columns, rows}).replace(/</g, '\\u003c');
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${scriptNonce}';">
+	<style>
+		body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); }
+		table { border-collapse: collapse; margin-top: 8px; }
+		th, td { border: 1px solid var(--vscode-panel-border); padding: 2px 6px; text-align: left; white-space: pre; }
+		th { cursor: pointer; position: sticky; top: 0; background: var(--vscode-editor-background); }
+		th.ascending::after { content: ' ▲'; }
+		th.descending::after { content: ' ▼'; }
+		button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+		button:hover { background: var(--vscode-button-hoverBackground); }
+	</style>
+</head>
+<body>
+	<button id="exportCSV">Export CSV</button>
+	<button id="exportJSON">Export JSON</button>
+	<span id="summary"></span>
+	<table><thead><tr id="header"></tr></thead><tbody id="body"></tbody></table>
+	<script nonce="${scriptNonce}">
+		const vscode = acquireVsCodeApi();
+		const data = ${data};
+		let sortColumn = -1;
+		let ascending = true;
+
+		function compare(a, b) {
+			const numberA = Number(a), numberB = Number(b);
+			if (a !== '' && b !== '' && !isNaN(numberA) && !isNaN(numberB)) {
+				return numberA - numberB;
+			}
+			return a.localeCompare(b);
+		}
+
+		function render() {
+			const header = document.getElementById('header');
+			header.textContent = '';
+			data.columns.forEach((column, index) => {
+				const cell = document.createElement('th');
+				cell.textContent = column;
+				if (index == sortColumn) {
+					cell.className = ascending ? 'ascending' : 'descending';
+				}
+				cell.addEventListener('click', () => {
+					ascending = index == sortColumn ? !ascending : true;
+					sortColumn = index;
+					render();
+				});
+				header.appendChild(cell);
+			});
+
+			const rows = data.rows.slice();
+			if (sortColumn >= 0) {
+				rows.sort((a, b) => ascending ? compare(a[sortColumn], b[sortColumn]) : compare(b[sortColumn], a[sortColumn]));
+			}
+
+			const body = document.getElementById('body');
+			body.textContent = '';
+			for (const row of rows) {
+				const line = document.createElement('tr');
+				for (const value of row) {
+					const cell = document.createElement('td');
+					cell.textContent = value;
+					line.appendChild(cell);
+				}
+				body.appendChild(line);
+			}
+		}
+
+		document.getElementById('summary').textContent = data.rows.length + (data.rows.length == 1 ? ' row' : ' rows');
+		document.getElementById('exportCSV').addEventListener('click', () => vscode.postMessage({command: 'export', format: 'csv'}));
+		document.getElementById('exportJSON').addEventListener('click', () => vscode.postMessage({command: 'export', format: 'json'}));
+		render();
+	</script>
+</body>
+</html>`;
+}
+
+/**
+ * Asks the user where to save the contents of an infotable and writes them to the selected file.
+ * @param name 			The name of the variable, used as the default file name.
+ * @param format 		The format of the file.
+ * @param contents 		The contents of the file.
+ */
+async function exportTable(name: string, format: 'csv' | 'json', contents: string): Promise<void> {
+	const folder = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
+	const fileName = `${name.replace(/[^\w.-]+/g, '_')}.${format}`;
+	const uri = await vscode.window.showSaveDialog({
+		defaultUri: folder ? vscode.Uri.joinPath(folder.uri, fileName) : undefined,
+		filters: format == 'csv' ? {'CSV': ['csv']} : {'JSON': ['json']}
+	});
+	if (!uri) {
+		return;
+	}
+
+	await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(contents));
+}
+
+/**
+ * Opens the infotable that the command was invoked on in a webview.
+ * @param argument 		The argument passed to the command.
+ */
+async function viewAsTable(argument: VariableArgument | undefined): Promise<void> {
+	const result = await variableData(argument);
+	if (!result) {
+		return;
+	}
+
+	const rows = tableRows(result.data);
+	const columns = tableColumns(result.data, rows);
+	const panel = vscode.window.createWebviewPanel('thingworx-vscode.table', result.name, vscode.ViewColumn.Active, {enableScripts: true});
+	panel.webview.html = tableHTML(panel.webview, columns, rows.map(row => columns.map(column => cellText(row && row[column]))));
+	panel.webview.onDidReceiveMessage(message => {
+		if (message && message.command == 'export') {
+			const contents = message.format == 'csv' ? toCSV(columns, rows) : JSON.stringify(result.data.value, null, 2);
+			exportTable(result.name, message.format == 'csv' ? 'csv' : 'json', contents).then(undefined, e => {
+				vscode.window.showErrorMessage(`Unable to export ${result.name}: ${(e as Error).message}`);
+			});
+		}
+	});
+}
+
+/**
+ * Opens the variable that the command was invoked on in a read-only JSON document.
+ * @param provider 		The provider of the document contents.
+ * @param argument 		The argument passed to the command.
+ */
+async function openAsJSON(provider: VariableDocumentProvider, argument: VariableArgument | undefined): Promise<void> {
+	const result = await variableData(argument);
+	if (!result) {
+		return;
+	}
+
+	// The reference makes the URI unique, so that variables with the same name open in separate documents
+	const uri = vscode.Uri.from({
+		scheme: VariableScheme,
+		path: `/${result.name.replace(/[\/\\]/g, '_')}.json`,
+		query: `reference=${result.variablesReference}`
+	});
+	provider.setContents(uri, JSON.stringify(result.data.value, null, 2));
+
+	const document = await vscode.workspace.openTextDocument(uri);
+	await vscode.languages.setTextDocumentLanguage(document, 'json');
+	await vscode.window.showTextDocument(document, {preview: true});
+}
+
+/**
+ * Registers the "View as Table" and "Open as JSON" commands.
+ * @param context 		The extension context.
+ */
+export function activateVariableViewers(context: vscode.ExtensionContext): void {
+	const provider = new VariableDocumentProvider();
+
+	context.subscriptions.push(
+		vscode.workspace.registerTextDocumentContentProvider(VariableScheme, provider),
+		vscode.workspace.onDidCloseTextDocument(document => {
+			if (document.uri.scheme == VariableScheme) {
+				provider.remove(document.uri);
+			}
+		}),
+		vscode.commands.registerCommand('thingworx-vscode.viewAsTable', (argument?: VariableArgument) => viewAsTable(argument)),
+		vscode.commands.registerCommand('thingworx-vscode.openAsJSON', (argument?: VariableArgument) => openAsJSON(provider, argument))
+	);
+}
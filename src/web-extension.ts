@@ -10,9 +10,11 @@
 
 import * as vscode from 'vscode';
 import { activateThingworxDebug } from './activateThingworxDebug';
+import { BrowserTransport } from './browserTransport';
 
 export function activate(context: vscode.ExtensionContext) {
-	activateThingworxDebug(context);	// activateMockDebug without 2nd argument launches the Debug Adapter "inlined"
+	// the browser transport uses fetch and the native WebSocket instead of the node.js modules
+	activateThingworxDebug(context, () => new BrowserTransport());	// activateThingworxDebug without 3rd argument launches the Debug Adapter "inlined"
 }
 
 export function deactivate() {